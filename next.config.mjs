@@ -4,6 +4,11 @@ const nextConfig = {
   poweredByHeader: false,
   compress: true,
 
+  // Loaded with require() at runtime; pdf-parse picks its pdf.js build dynamically
+  experimental: {
+    serverComponentsExternalPackages: ['pdf-parse', 'mammoth'],
+  },
+
   // Security headers
   async headers() {
     return [
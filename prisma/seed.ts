@@ -1,5 +1,7 @@
 import { PrismaClient, UserRole } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { createTrainingDocument } from '../src/lib/knowledge-base';
+import { prisma as appPrisma } from '../src/lib/prisma';
 
 const prisma = new PrismaClient();
 
@@ -155,10 +157,9 @@ async function main() {
   });
 
   if (adaCategory) {
-    await prisma.trainingDocument.create({
-      data: {
-        title: 'ADA Reasonable Accommodation Guidelines',
-        content: `The Americans with Disabilities Act (ADA) requires employers to provide reasonable accommodations to qualified individuals with disabilities, unless doing so would cause undue hardship.
+    const adaDocument = await createTrainingDocument({
+      title: 'ADA Reasonable Accommodation Guidelines',
+      content: `The Americans with Disabilities Act (ADA) requires employers to provide reasonable accommodations to qualified individuals with disabilities, unless doing so would cause undue hardship.
 
 Key Points:
 1. Interactive Process: Employers must engage in an interactive process with the employee to determine appropriate accommodations.
@@ -174,16 +175,14 @@ Key Points:
 4. Medical Documentation: Employers may request medical documentation to verify the disability and need for accommodation.
 
 5. Confidentiality: Medical information must be kept confidential and stored separately from personnel files.`,
-        documentType: 'COMPLIANCE',
-        uploadedById: admin.id,
-        isActive: true,
-      },
+      documentType: 'COMPLIANCE',
+      uploadedById: admin.id,
+      isActive: true,
     });
 
-    await prisma.trainingDocument.create({
-      data: {
-        title: 'FEHA Work Restriction Guidelines',
-        content: `The California Fair Employment and Housing Act (FEHA) provides broader protections than the ADA and applies to employers with 5 or more employees.
+    const fehaDocument = await createTrainingDocument({
+      title: 'FEHA Work Restriction Guidelines',
+      content: `The California Fair Employment and Housing Act (FEHA) provides broader protections than the ADA and applies to employers with 5 or more employees.
 
 Key Differences from ADA:
 1. Broader Definition: FEHA defines disability more broadly than the ADA.
@@ -196,10 +195,33 @@ Best Practices:
 - Document all accommodation discussions
 - Maintain open communication with employees
 - Consult legal counsel for complex cases`,
-        documentType: 'COMPLIANCE',
-        uploadedById: admin.id,
-        isActive: true,
-      },
+      documentType: 'COMPLIANCE',
+      uploadedById: admin.id,
+      isActive: true,
+    });
+
+    // Starter golden set for `npm run eval:chatbot`
+    await prisma.evaluationCase.createMany({
+      data: [
+        {
+          question: 'Does my employer have to talk with me before deciding on an accommodation?',
+          expectedDocumentIds: [adaDocument.id],
+          keyFacts: ['Employers must engage in an interactive process'],
+          createdById: admin.id,
+        },
+        {
+          question: 'Are temporary work restrictions covered under FEHA?',
+          expectedDocumentIds: [fehaDocument.id],
+          keyFacts: ['FEHA may cover temporary disabilities lasting more than 6 months'],
+          createdById: admin.id,
+        },
+        {
+          question: 'When can an accommodation be refused for undue hardship?',
+          expectedDocumentIds: [adaDocument.id],
+          keyFacts: ['significant difficulty or expense'],
+          createdById: admin.id,
+        },
+      ],
     });
   }
 
@@ -221,4 +243,5 @@ main()
   })
   .finally(async () => {
     await prisma.$disconnect();
+    await appPrisma.$disconnect();
   });
@@ -0,0 +1,75 @@
+import { parseArgs } from 'util';
+import { prisma } from '../src/lib/prisma';
+import { compareEvaluationRuns, runEvaluation } from '../src/lib/evaluation';
+import { getLlmProvider, getLlmSettings, setLlmProvider, StubLlmProvider } from '../src/lib/llm';
+
+// Usage: npm run eval:chatbot -- [--stub] [--k 5] [--label "name"] [--baseline <runId>] [--prompt <promptTemplateId>]
+const { values } = parseArgs({
+  options: {
+    stub: { type: 'boolean', default: false },
+    k: { type: 'string', default: '5' },
+    label: { type: 'string' },
+    baseline: { type: 'string' },
+    prompt: { type: 'string' },
+  },
+});
+
+const percent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '   n/a' : `${(value * 100).toFixed(1).padStart(5)}%`;
+
+const change = (value: number | null | undefined) =>
+  value === null || value === undefined ? '' : ` (${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)})`;
+
+async function main() {
+  // The stub needs no API key or network access
+  if (values.stub) {
+    setLlmProvider(new StubLlmProvider(getLlmSettings()));
+  }
+
+  const provider = getLlmProvider();
+  console.log(`🧪 Evaluating chatbot with ${provider.name}/${provider.model}...`);
+
+  const run = await runEvaluation({
+    k: parseInt(values.k!),
+    label: values.label,
+    promptTemplateId: values.prompt,
+  });
+  const { baseline, results } = await compareEvaluationRuns(run.id, values.baseline);
+
+  for (const result of results) {
+    const flag = result.error ? '❌' : result.recallAtK === 0 || (result.factCoverage ?? 1) < 1 ? '⚠️ ' : '✅';
+    console.log(`${flag} ${result.question.slice(0, 80)}`);
+    console.log(
+      `   recall@${run.k} ${percent(result.recallAtK)}${change(result.change?.recallAtK)}` +
+        `  RR ${percent(result.reciprocalRank)}${change(result.change?.reciprocalRank)}` +
+        `  facts ${percent(result.factCoverage)}${change(result.change?.factCoverage)}`
+    );
+    if (result.missingFacts.length > 0) {
+      console.log(`   missing: ${result.missingFacts.join('; ')}`);
+    }
+    if (result.error) {
+      console.log(`   error: ${result.error}`);
+    }
+  }
+
+  console.log(`\n📊 Run ${run.id}${run.label ? ` (${run.label})` : ''}: ${run.caseCount} cases in ${run.durationMs}ms`);
+  console.log(`   recall@${run.k}  ${percent(run.recallAtK)}${baseline ? change(diff(run.recallAtK, baseline.recallAtK)) : ''}`);
+  console.log(`   MRR        ${percent(run.mrr)}${baseline ? change(diff(run.mrr, baseline.mrr)) : ''}`);
+  console.log(`   facts      ${percent(run.factCoverage)}${baseline ? change(diff(run.factCoverage, baseline.factCoverage)) : ''}`);
+  if (baseline) {
+    console.log(`   compared with run ${baseline.id}${baseline.label ? ` (${baseline.label})` : ''}`);
+  }
+}
+
+function diff(current: number | null, previous: number | null) {
+  return current !== null && previous !== null ? current - previous : null;
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during evaluation:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
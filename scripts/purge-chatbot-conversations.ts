@@ -0,0 +1,51 @@
+import { parseArgs } from 'util';
+import { prisma } from '../src/lib/prisma';
+import { purgeExpiredConversations } from '../src/lib/retention';
+
+// Usage: npm run chatbot:purge -- [--dry-run] [--batch-size 100]
+// Schedule it daily (e.g. cron or a scheduled container task) once a retention window is configured.
+const { values } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '100' },
+  },
+});
+
+async function main() {
+  const dryRun = values['dry-run']!;
+  const report = await purgeExpiredConversations({ dryRun, batchSize: parseInt(values['batch-size']!) });
+
+  if (report.roles.length === 0) {
+    console.log('ℹ️  No retention window configured; set CHATBOT_RETENTION_DAYS to purge conversations.');
+    return;
+  }
+
+  console.log(
+    `🗑️  Chatbot retention ${dryRun ? 'dry run' : 'purge'} (${report.action}, escalation copies: ${report.escalationCopies})`
+  );
+  for (const role of report.roles) {
+    console.log(
+      `   ${role.role.padEnd(8)} ${String(role.retentionDays).padStart(5)} days  ` +
+        `expired ${role.expired}  on hold ${role.onHold}  ${dryRun ? 'would purge' : 'purged'} ${dryRun ? role.expired : role.purged}  ` +
+        `escalation copies expired ${role.expiredEscalationCopies}` +
+        (dryRun ? '' : `, removed ${role.escalationCopiesPurged}`)
+    );
+  }
+
+  if (dryRun) {
+    console.log('✅ Dry run only, nothing was changed');
+  } else {
+    console.log(
+      `✅ Purged ${report.purged} conversations and ${report.escalationCopiesPurged} escalation copies in ${report.batches} batches`
+    );
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during retention purge:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
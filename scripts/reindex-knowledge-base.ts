@@ -0,0 +1,24 @@
+import { prisma } from '../src/lib/prisma';
+import { reindexKnowledgeBase } from '../src/lib/knowledge-base';
+import { getEmbeddingProvider } from '../src/lib/embeddings';
+
+async function main() {
+  const provider = getEmbeddingProvider();
+  console.log(`🔎 Re-indexing knowledge base with ${provider.name}/${provider.model}...`);
+
+  const summary = await reindexKnowledgeBase();
+
+  console.log(`✅ Indexed ${summary.indexed}, unchanged ${summary.skipped}, failed ${summary.failed}`);
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during re-index:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,601 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Navbar from '@/components/Navbar';
+
+interface EvaluationCase {
+  id: string;
+  question: string;
+  expectedDocumentIds: string[];
+  expectedDocuments: { id: string; title: string | null; isActive: boolean }[];
+  keyFacts: string[];
+  notes: string | null;
+  isActive: boolean;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    fullName: string;
+  };
+  sourceMessage: {
+    id: string;
+    conversationId: string;
+  } | null;
+}
+
+interface EvaluationRun {
+  id: string;
+  label: string | null;
+  k: number;
+  caseCount: number;
+  recallAtK: number | null;
+  mrr: number | null;
+  factCoverage: number | null;
+  config: Record<string, string | number | null>;
+  durationMs: number;
+  createdAt: string;
+}
+
+interface MetricChange {
+  recallAtK: number | null;
+  reciprocalRank: number | null;
+  factCoverage: number | null;
+}
+
+interface RunComparison {
+  run: EvaluationRun;
+  baseline: Omit<EvaluationRun, 'k' | 'caseCount' | 'durationMs'> | null;
+  results: {
+    id: string;
+    caseId: string | null;
+    question: string;
+    retrievedDocumentIds: string[];
+    recallAtK: number | null;
+    reciprocalRank: number | null;
+    factCoverage: number | null;
+    missingFacts: string[];
+    answer: string;
+    error: string | null;
+    change: MetricChange | null;
+  }[];
+}
+
+interface DocumentOption {
+  id: string;
+  title: string;
+}
+
+const emptyForm = { question: '', expectedDocumentIds: [] as string[], keyFacts: '', notes: '' };
+
+function formatPercent(value: number | null | undefined) {
+  return value === null || value === undefined ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function Change({ value }: { value: number | null | undefined }) {
+  if (value === null || value === undefined || Math.abs(value) < 0.0005) return null;
+  return (
+    <span className={`ml-1 text-xs ${value > 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {value > 0 ? '+' : ''}
+      {(value * 100).toFixed(1)}
+    </span>
+  );
+}
+
+export default function AdminEvaluationPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [cases, setCases] = useState<EvaluationCase[]>([]);
+  const [runs, setRuns] = useState<EvaluationRun[]>([]);
+  const [documents, setDocuments] = useState<DocumentOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [runOptions, setRunOptions] = useState({ k: 5, label: '' });
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (session?.user?.role !== 'ADMIN') {
+      router.push('/dashboard');
+      return;
+    }
+
+    fetchAll();
+  }, [session, router]);
+
+  async function fetchAll() {
+    try {
+      setLoading(true);
+      await Promise.all([fetchCases(), fetchRuns(), fetchDocuments()]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchCases() {
+    try {
+      const res = await fetch('/api/admin/evaluation/cases?limit=100');
+      if (res.ok) {
+        const data = await res.json();
+        setCases(data.cases || []);
+      }
+    } catch (error) {
+      console.error('Error fetching evaluation cases:', error);
+    }
+  }
+
+  async function fetchRuns() {
+    try {
+      const res = await fetch('/api/admin/evaluation/runs');
+      if (res.ok) {
+        const data = await res.json();
+        setRuns(data.runs || []);
+      }
+    } catch (error) {
+      console.error('Error fetching evaluation runs:', error);
+    }
+  }
+
+  async function fetchDocuments() {
+    try {
+      const res = await fetch('/api/admin/training-documents?isActive=true&limit=100');
+      if (res.ok) {
+        const data = await res.json();
+        setDocuments(data.documents || []);
+      }
+    } catch (error) {
+      console.error('Error fetching training documents:', error);
+    }
+  }
+
+  async function viewRun(id: string) {
+    try {
+      const res = await fetch(`/api/admin/evaluation/runs/${id}`);
+      if (res.ok) {
+        setComparison(await res.json());
+      }
+    } catch (error) {
+      console.error('Error fetching evaluation run:', error);
+    }
+  }
+
+  async function handleRun() {
+    setRunning(true);
+    try {
+      const res = await fetch('/api/admin/evaluation/runs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ k: runOptions.k, label: runOptions.label || undefined }),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        setRunOptions({ ...runOptions, label: '' });
+        await fetchRuns();
+        viewRun(data.id);
+      } else {
+        alert(data.error || 'Failed to run evaluation');
+      }
+    } catch (error) {
+      alert('Error running evaluation');
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  function openCreateForm() {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setShowForm(true);
+  }
+
+  function openEditForm(evaluationCase: EvaluationCase) {
+    setEditingId(evaluationCase.id);
+    setFormData({
+      question: evaluationCase.question,
+      expectedDocumentIds: evaluationCase.expectedDocumentIds,
+      keyFacts: evaluationCase.keyFacts.join('\n'),
+      notes: evaluationCase.notes || '',
+    });
+    setShowForm(true);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      const res = await fetch(
+        editingId ? `/api/admin/evaluation/cases/${editingId}` : '/api/admin/evaluation/cases',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            question: formData.question,
+            expectedDocumentIds: formData.expectedDocumentIds,
+            keyFacts: formData.keyFacts.split('\n').map((fact) => fact.trim()).filter(Boolean),
+            notes: formData.notes || (editingId ? null : undefined),
+          }),
+        }
+      );
+
+      if (res.ok) {
+        setShowForm(false);
+        fetchCases();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to save case');
+      }
+    } catch (error) {
+      alert('Error saving case');
+    }
+  }
+
+  async function handleToggle(evaluationCase: EvaluationCase) {
+    try {
+      const res = await fetch(`/api/admin/evaluation/cases/${evaluationCase.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !evaluationCase.isActive }),
+      });
+
+      if (res.ok) {
+        fetchCases();
+      }
+    } catch (error) {
+      alert('Error updating case');
+    }
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm('Delete this case? Past run results keep a copy of the question.')) return;
+
+    try {
+      const res = await fetch(`/api/admin/evaluation/cases/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (res.ok) {
+        fetchCases();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to delete case');
+      }
+    } catch (error) {
+      alert('Error deleting case');
+    }
+  }
+
+  function toggleDocument(id: string) {
+    setFormData((prev) => ({
+      ...prev,
+      expectedDocumentIds: prev.expectedDocumentIds.includes(id)
+        ? prev.expectedDocumentIds.filter((docId) => docId !== id)
+        : [...prev.expectedDocumentIds, id],
+    }));
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return null;
+  }
+
+  const activeCases = cases.filter((c) => c.isActive).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <div className="mb-6 flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Chatbot Evaluation</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Score retrieval and answers against the golden set before changing search or prompts
+              </p>
+            </div>
+            <div className="flex items-end space-x-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-700">k</label>
+                <select
+                  value={runOptions.k}
+                  onChange={(e) => setRunOptions({ ...runOptions, k: parseInt(e.target.value) })}
+                  className="mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {[1, 3, 5, 10].map((k) => (
+                    <option key={k} value={k}>{k}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700">Label</label>
+                <input
+                  type="text"
+                  value={runOptions.label}
+                  onChange={(e) => setRunOptions({ ...runOptions, label: e.target.value })}
+                  placeholder="e.g. new chunk size"
+                  className="mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <button
+                onClick={handleRun}
+                disabled={running || activeCases === 0}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {running ? 'Running...' : `Run ${activeCases} Cases`}
+              </button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+              Loading evaluation...
+            </div>
+          ) : (
+            <>
+              {/* Runs */}
+              <div className="bg-white shadow rounded-lg overflow-hidden mb-6">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900">Runs</h2>
+                </div>
+                {runs.length === 0 ? (
+                  <p className="p-6 text-sm text-gray-500">
+                    No runs yet. Run the golden set here or with <code>npm run eval:chatbot</code>.
+                  </p>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Run</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Configuration</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cases</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recall@k</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">MRR</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fact Coverage</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {runs.map((run, idx) => {
+                        const previous = runs[idx + 1];
+                        const delta = (current: number | null, before: number | null | undefined) =>
+                          current !== null && before !== null && before !== undefined ? current - before : null;
+                        return (
+                          <tr
+                            key={run.id}
+                            onClick={() => viewRun(run.id)}
+                            className={`cursor-pointer hover:bg-gray-50 ${comparison?.run.id === run.id ? 'bg-blue-50' : ''}`}
+                          >
+                            <td className="px-6 py-4 text-sm">
+                              <div className="font-medium text-gray-900">{run.label || 'Unlabeled run'}</div>
+                              <div className="text-xs text-gray-500">{new Date(run.createdAt).toLocaleString()}</div>
+                            </td>
+                            <td className="px-6 py-4 text-xs text-gray-500">
+                              <div>{run.config.llmProvider}/{run.config.llmModel}</div>
+                              <div>{run.config.embeddingProvider}/{run.config.embeddingModel} · prompt {run.config.promptVersion ? `v${run.config.promptVersion} ` : ''}{run.config.promptHash}</div>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-500">{run.caseCount}</td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {formatPercent(run.recallAtK)} <span className="text-xs text-gray-500">@{run.k}</span>
+                              <Change value={delta(run.recallAtK, previous?.recallAtK)} />
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {formatPercent(run.mrr)}
+                              <Change value={delta(run.mrr, previous?.mrr)} />
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {formatPercent(run.factCoverage)}
+                              <Change value={delta(run.factCoverage, previous?.factCoverage)} />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {/* Run Detail */}
+              {comparison && (
+                <div className="bg-white shadow rounded-lg p-6 mb-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h2 className="text-lg font-medium text-gray-900">
+                        {comparison.run.label || 'Unlabeled run'}
+                      </h2>
+                      <p className="text-xs text-gray-500">
+                        {comparison.baseline
+                          ? `Changes compared with ${comparison.baseline.label || 'the run'} from ${new Date(comparison.baseline.createdAt).toLocaleString()}`
+                          : 'No earlier run to compare with'}
+                      </p>
+                    </div>
+                    <button onClick={() => setComparison(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                      Close
+                    </button>
+                  </div>
+                  <div className="space-y-3">
+                    {comparison.results.map((result) => (
+                      <details key={result.id} className="border border-gray-200 rounded-md p-3">
+                        <summary className="cursor-pointer text-sm">
+                          <span className="font-medium text-gray-900">{result.question}</span>
+                          <span className="ml-2 text-xs text-gray-500">
+                            recall {formatPercent(result.recallAtK)}
+                            <Change value={result.change?.recallAtK} />
+                            {' · '}RR {formatPercent(result.reciprocalRank)}
+                            <Change value={result.change?.reciprocalRank} />
+                            {' · '}facts {formatPercent(result.factCoverage)}
+                            <Change value={result.change?.factCoverage} />
+                          </span>
+                          {result.error && <span className="ml-2 text-xs text-red-600">Failed</span>}
+                        </summary>
+                        <div className="mt-3 space-y-2 text-sm">
+                          {result.error && <p className="text-red-600">{result.error}</p>}
+                          {result.missingFacts.length > 0 && (
+                            <div>
+                              <p className="text-xs font-semibold text-gray-500 uppercase">Missing facts</p>
+                              <ul className="list-disc list-inside text-gray-700">
+                                {result.missingFacts.map((fact) => (
+                                  <li key={fact}>{fact}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          <div>
+                            <p className="text-xs font-semibold text-gray-500 uppercase">Answer</p>
+                            <p className="whitespace-pre-wrap text-gray-900">{result.answer || '-'}</p>
+                          </div>
+                        </div>
+                      </details>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Golden Set */}
+              <div className="bg-white shadow rounded-lg overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                  <div>
+                    <h2 className="text-lg font-medium text-gray-900">Golden Set</h2>
+                    <p className="text-xs text-gray-500">
+                      {activeCases} active of {cases.length}. Add cases from real answers in the feedback queue.
+                    </p>
+                  </div>
+                  <button
+                    onClick={openCreateForm}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    Add Case
+                  </button>
+                </div>
+                {cases.length === 0 ? (
+                  <p className="p-6 text-sm text-gray-500">No cases yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {cases.map((evaluationCase) => (
+                      <li key={evaluationCase.id} className="px-6 py-4">
+                        <div className="flex justify-between items-start">
+                          <div className="flex-1 min-w-0 mr-4">
+                            <p className={`text-sm font-medium ${evaluationCase.isActive ? 'text-gray-900' : 'text-gray-400'}`}>
+                              {evaluationCase.question}
+                            </p>
+                            <p className="mt-1 text-xs text-gray-500">
+                              Expected:{' '}
+                              {evaluationCase.expectedDocuments.length > 0
+                                ? evaluationCase.expectedDocuments
+                                    .map((doc) => doc.title || 'Deleted document')
+                                    .join(', ')
+                                : 'none'}
+                            </p>
+                            {evaluationCase.keyFacts.length > 0 && (
+                              <ul className="mt-1 text-xs text-gray-600 list-disc list-inside">
+                                {evaluationCase.keyFacts.map((fact) => (
+                                  <li key={fact}>{fact}</li>
+                                ))}
+                              </ul>
+                            )}
+                            <p className="mt-1 text-xs text-gray-400">
+                              {evaluationCase.sourceMessage ? 'From a chatbot conversation' : 'Written by hand'}
+                              {' · '}{evaluationCase.createdBy.fullName}
+                            </p>
+                          </div>
+                          <div className="flex space-x-3 text-sm font-medium">
+                            <button onClick={() => openEditForm(evaluationCase)} className="text-blue-600 hover:text-blue-900">
+                              Edit
+                            </button>
+                            <button onClick={() => handleToggle(evaluationCase)} className="text-gray-600 hover:text-gray-900">
+                              {evaluationCase.isActive ? 'Disable' : 'Enable'}
+                            </button>
+                            <button onClick={() => handleDelete(evaluationCase.id)} className="text-red-600 hover:text-red-900">
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Case Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <h2 className="text-xl font-bold text-gray-900">
+                {editingId ? 'Edit Case' : 'Add Case'}
+              </h2>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Question</label>
+                <textarea
+                  rows={3}
+                  required
+                  value={formData.question}
+                  onChange={(e) => setFormData({ ...formData, question: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Expected source documents</label>
+                <div className="mt-1 max-h-48 overflow-y-auto border border-gray-300 rounded-md p-2 space-y-1">
+                  {documents.map((doc) => (
+                    <label key={doc.id} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={formData.expectedDocumentIds.includes(doc.id)}
+                        onChange={() => toggleDocument(doc.id)}
+                      />
+                      <span>{doc.title}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Key facts (one per line)</label>
+                <textarea
+                  rows={4}
+                  value={formData.keyFacts}
+                  onChange={(e) => setFormData({ ...formData, keyFacts: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Notes (optional)</label>
+                <input
+                  type="text"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  Save
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
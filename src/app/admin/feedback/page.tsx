@@ -0,0 +1,480 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Navbar from '@/components/Navbar';
+
+interface FeedbackItem {
+  id: string;
+  rating: 'HELPFUL' | 'NOT_HELPFUL';
+  reasons: string[];
+  comment: string | null;
+  status: 'PENDING' | 'RESOLVED' | 'DISMISSED';
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  question: string | null;
+  message: {
+    id: string;
+    content: string;
+    sources: any[] | null;
+    citations: { documentId: string; title: string }[] | null;
+  };
+  user: {
+    id: string;
+    fullName: string;
+    department: string | null;
+  };
+  reviewedBy: {
+    id: string;
+    fullName: string;
+  } | null;
+  trainingDocument: {
+    id: string;
+    title: string;
+  } | null;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  WRONG: 'Wrong',
+  OUTDATED: 'Outdated',
+  INCOMPLETE: 'Incomplete',
+  SHOULD_HAVE_ESCALATED: 'Should have escalated',
+  IRRELEVANT_SOURCES: 'Irrelevant sources',
+  OTHER: 'Other',
+};
+
+export default function AdminFeedbackPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [feedback, setFeedback] = useState<FeedbackItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState('PENDING');
+  const [rating, setRating] = useState('NOT_HELPFUL');
+  const [reason, setReason] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [correctingId, setCorrectingId] = useState<string | null>(null);
+  const [correction, setCorrection] = useState({ title: '', question: '', answer: '' });
+  const [reviewNote, setReviewNote] = useState('');
+  const [goldenId, setGoldenId] = useState<string | null>(null);
+  const [keyFacts, setKeyFacts] = useState('');
+  const [goldenDocumentIds, setGoldenDocumentIds] = useState<string[]>([]);
+  const [addedToGoldenSet, setAddedToGoldenSet] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (session?.user?.role !== 'ADMIN') {
+      router.push('/dashboard');
+      return;
+    }
+
+    fetchFeedback();
+  }, [session, router, status, rating, reason, page]);
+
+  async function fetchFeedback() {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ status, rating, page: page.toString() });
+      if (reason) params.set('reason', reason);
+
+      const res = await fetch(`/api/admin/feedback?${params}`);
+      if (res.ok) {
+        const data = await res.json();
+        setFeedback(data.feedback || []);
+        setTotalPages(data.pagination.totalPages || 1);
+      }
+    } catch (error) {
+      console.error('Error fetching feedback:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function startCorrection(item: FeedbackItem) {
+    setCorrectingId(item.id);
+    setReviewNote('');
+    setCorrection({
+      title: item.question ? item.question.slice(0, 200) : '',
+      question: item.question || '',
+      answer: item.message.content,
+    });
+  }
+
+  async function reviewFeedback(id: string, newStatus: 'RESOLVED' | 'DISMISSED', withCorrection = false) {
+    try {
+      const res = await fetch(`/api/admin/feedback/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          status: newStatus,
+          reviewNote: reviewNote || undefined,
+          correction: withCorrection ? correction : undefined,
+        }),
+      });
+
+      if (res.ok) {
+        setCorrectingId(null);
+        setReviewNote('');
+        fetchFeedback();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to review feedback');
+      }
+    } catch (error) {
+      alert('Error reviewing feedback');
+    }
+  }
+
+  // Documents the answer cited, once each, offered as the expected sources
+  function citedDocuments(item: FeedbackItem) {
+    const documents = new Map<string, string>();
+    for (const citation of item.message.citations || []) {
+      if (!documents.has(citation.documentId)) {
+        documents.set(citation.documentId, citation.title);
+      }
+    }
+    return Array.from(documents, ([id, title]) => ({ id, title }));
+  }
+
+  function toggleGoldenDocument(id: string) {
+    setGoldenDocumentIds((prev) =>
+      prev.includes(id) ? prev.filter((docId) => docId !== id) : [...prev, id]
+    );
+  }
+
+  async function addToGoldenSet(item: FeedbackItem) {
+    try {
+      const res = await fetch('/api/admin/evaluation/cases', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messageId: item.message.id,
+          expectedDocumentIds: goldenDocumentIds,
+          keyFacts: keyFacts.split('\n').map((fact) => fact.trim()).filter(Boolean),
+        }),
+      });
+
+      if (res.ok) {
+        setGoldenId(null);
+        setKeyFacts('');
+        setGoldenDocumentIds([]);
+        setAddedToGoldenSet((prev) => [...prev, item.id]);
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to add to golden set');
+      }
+    } catch (error) {
+      alert('Error adding to golden set');
+    }
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">Chatbot Feedback</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Review rated answers and turn corrections into Q&amp;A training documents
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white shadow rounded-lg p-4 mb-6 flex flex-wrap gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Status</label>
+              <select
+                value={status}
+                onChange={(e) => {
+                  setStatus(e.target.value);
+                  setPage(1);
+                }}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="PENDING">Pending</option>
+                <option value="RESOLVED">Resolved</option>
+                <option value="DISMISSED">Dismissed</option>
+                <option value="ALL">All</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Rating</label>
+              <select
+                value={rating}
+                onChange={(e) => {
+                  setRating(e.target.value);
+                  setPage(1);
+                }}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="NOT_HELPFUL">Not helpful</option>
+                <option value="HELPFUL">Helpful</option>
+                <option value="ALL">All</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Reason</label>
+              <select
+                value={reason}
+                onChange={(e) => {
+                  setReason(e.target.value);
+                  setPage(1);
+                }}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Any reason</option>
+                {Object.entries(REASON_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Review Queue */}
+          {loading ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+              Loading feedback...
+            </div>
+          ) : feedback.length === 0 ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+              No feedback matches these filters.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {feedback.map((item) => (
+                <div key={item.id} className="bg-white shadow rounded-lg p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        item.rating === 'HELPFUL' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}>
+                        {item.rating === 'HELPFUL' ? 'Helpful' : 'Not helpful'}
+                      </span>
+                      {item.reasons.map((r) => (
+                        <span key={r} className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                          {REASON_LABELS[r] || r}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="text-right text-xs text-gray-500">
+                      <div>{item.user.fullName}{item.user.department && ` · ${item.user.department}`}</div>
+                      <div>{new Date(item.createdAt).toLocaleString()}</div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3 text-sm">
+                    <div>
+                      <p className="text-xs font-semibold text-gray-500 uppercase">Question</p>
+                      <p className="whitespace-pre-wrap text-gray-900">{item.question || '-'}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs font-semibold text-gray-500 uppercase">Answer</p>
+                      <p className="whitespace-pre-wrap text-gray-900">{item.message.content}</p>
+                    </div>
+                    {item.comment && (
+                      <div>
+                        <p className="text-xs font-semibold text-gray-500 uppercase">Member comment</p>
+                        <p className="whitespace-pre-wrap text-gray-700">{item.comment}</p>
+                      </div>
+                    )}
+                    <details>
+                      <summary className="cursor-pointer text-xs font-semibold text-gray-500 uppercase">
+                        Retrieved sources ({item.message.sources?.length || 0})
+                      </summary>
+                      <pre className="mt-2 p-3 bg-gray-50 rounded text-xs overflow-x-auto">
+                        {JSON.stringify(item.message.sources, null, 2)}
+                      </pre>
+                    </details>
+                  </div>
+
+                  {item.status !== 'PENDING' ? (
+                    <div className="mt-4 pt-4 border-t border-gray-200 text-sm text-gray-600">
+                      {item.status === 'RESOLVED' ? 'Resolved' : 'Dismissed'}
+                      {item.reviewedBy && ` by ${item.reviewedBy.fullName}`}
+                      {item.reviewedAt && ` on ${new Date(item.reviewedAt).toLocaleDateString()}`}
+                      {item.trainingDocument && ` · Added "${item.trainingDocument.title}" to training`}
+                      {item.reviewNote && <p className="mt-1 italic">{item.reviewNote}</p>}
+                    </div>
+                  ) : goldenId === item.id ? (
+                    <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Key facts a correct answer states (one per line)</label>
+                        <textarea
+                          rows={4}
+                          value={keyFacts}
+                          onChange={(e) => setKeyFacts(e.target.value)}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <p className="mt-1 text-xs text-gray-500">
+                          The question is copied into the evaluation golden set.
+                        </p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Expected source documents</label>
+                        {citedDocuments(item).length > 0 ? (
+                          <div className="mt-1 border border-gray-300 rounded-md p-2 space-y-1">
+                            {citedDocuments(item).map((doc) => (
+                              <label key={doc.id} className="flex items-center space-x-2 text-sm">
+                                <input
+                                  type="checkbox"
+                                  checked={goldenDocumentIds.includes(doc.id)}
+                                  onChange={() => toggleGoldenDocument(doc.id)}
+                                />
+                                <span>{doc.title}</span>
+                              </label>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="mt-1 text-sm text-gray-500">The answer didn&apos;t cite any sources.</p>
+                        )}
+                        <p className="mt-1 text-xs text-gray-500">
+                          Untick cited documents that a correct answer wouldn&apos;t need. More can be added from the evaluation page.
+                        </p>
+                      </div>
+                      <div className="flex justify-end space-x-3">
+                        <button
+                          onClick={() => setGoldenId(null)}
+                          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => addToGoldenSet(item)}
+                          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                        >
+                          Add to Golden Set
+                        </button>
+                      </div>
+                    </div>
+                  ) : correctingId === item.id ? (
+                    <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Document title</label>
+                        <input
+                          type="text"
+                          value={correction.title}
+                          onChange={(e) => setCorrection({ ...correction, title: e.target.value })}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Question</label>
+                        <textarea
+                          rows={2}
+                          value={correction.question}
+                          onChange={(e) => setCorrection({ ...correction, question: e.target.value })}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Corrected answer</label>
+                        <textarea
+                          rows={6}
+                          value={correction.answer}
+                          onChange={(e) => setCorrection({ ...correction, answer: e.target.value })}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Review note (optional)</label>
+                        <input
+                          type="text"
+                          value={reviewNote}
+                          onChange={(e) => setReviewNote(e.target.value)}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div className="flex justify-end space-x-3">
+                        <button
+                          onClick={() => setCorrectingId(null)}
+                          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => reviewFeedback(item.id, 'RESOLVED', true)}
+                          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                        >
+                          Save as Q&amp;A Document
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="mt-4 pt-4 border-t border-gray-200 flex justify-end space-x-4 text-sm font-medium">
+                      <button
+                        onClick={() => reviewFeedback(item.id, 'DISMISSED')}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        Dismiss
+                      </button>
+                      <button
+                        onClick={() => reviewFeedback(item.id, 'RESOLVED')}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Mark Resolved
+                      </button>
+                      <button
+                        onClick={() => startCorrection(item)}
+                        className="text-green-600 hover:text-green-900"
+                      >
+                        Add Correction
+                      </button>
+                      {addedToGoldenSet.includes(item.id) ? (
+                        <span className="text-gray-500">Added to golden set</span>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setGoldenId(item.id);
+                            setKeyFacts('');
+                            setGoldenDocumentIds(citedDocuments(item).map((doc) => doc.id));
+                          }}
+                          className="text-purple-600 hover:text-purple-900"
+                        >
+                          Add to Golden Set
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="mt-6 flex justify-center items-center space-x-4 text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-gray-600">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Navbar from '@/components/Navbar';
+
+interface GapQuestion {
+  messageId: string;
+  question: string;
+  reason: string;
+  askedAt: string;
+}
+
+interface GapCluster {
+  key: string;
+  question: string;
+  questions: GapQuestion[];
+  count: number;
+  lastAskedAt: string;
+  score: number;
+  reasons: Record<string, number>;
+}
+
+interface KnowledgeGap {
+  id: string;
+  title: string;
+  note: string | null;
+  status: 'ASSIGNED' | 'RESOLVED' | 'DISMISSED';
+  resolvedAt: string | null;
+  createdAt: string;
+  assignedTo: { id: string; fullName: string } | null;
+  createdBy: { id: string; fullName: string };
+  trainingDocument: { id: string; title: string } | null;
+  _count: { messages: number };
+}
+
+interface Liaison {
+  id: string;
+  fullName: string;
+  department: string | null;
+}
+
+interface GapSummary {
+  days: number;
+  answered: number;
+  lowConfidence: number;
+  lowConfidenceRate: number | null;
+  byReason: Record<string, number>;
+  averageRetrievalHits: number | null;
+  clusteredQuestions: number;
+  questionLimit: number;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  NO_SOURCES: 'No sources',
+  WEAK_SOURCES: 'Weak sources',
+  MODEL_UNSURE: 'Model unsure',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  ASSIGNED: 'bg-yellow-100 text-yellow-800',
+  RESOLVED: 'bg-green-100 text-green-800',
+  DISMISSED: 'bg-gray-100 text-gray-800',
+};
+
+export default function AdminKnowledgeGapsPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [summary, setSummary] = useState<GapSummary | null>(null);
+  const [clusters, setClusters] = useState<GapCluster[]>([]);
+  const [gaps, setGaps] = useState<KnowledgeGap[]>([]);
+  const [liaisons, setLiaisons] = useState<Liaison[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState('90');
+  const [gapStatus, setGapStatus] = useState('ASSIGNED');
+  const [assigningKey, setAssigningKey] = useState<string | null>(null);
+  const [assignment, setAssignment] = useState({ title: '', assignedToId: '', note: '' });
+
+  useEffect(() => {
+    if (session?.user?.role !== 'ADMIN') {
+      router.push('/dashboard');
+      return;
+    }
+
+    fetchReport();
+  }, [session, router, days, gapStatus]);
+
+  async function fetchReport() {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ days, status: gapStatus });
+      const res = await fetch(`/api/admin/knowledge-gaps?${params}`);
+      if (res.ok) {
+        const data = await res.json();
+        setSummary(data.summary);
+        setClusters(data.clusters || []);
+        setGaps(data.gaps || []);
+        setLiaisons(data.liaisons || []);
+      }
+    } catch (error) {
+      console.error('Error fetching knowledge gaps:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function startAssignment(cluster: GapCluster) {
+    setAssigningKey(cluster.key);
+    setAssignment({ title: cluster.question.slice(0, 200), assignedToId: liaisons[0]?.id || '', note: '' });
+  }
+
+  async function createGap(cluster: GapCluster, dismiss: boolean) {
+    if (dismiss && !confirm('Dismiss these questions? They will no longer appear in the report.')) {
+      return;
+    }
+
+    try {
+      const res = await fetch('/api/admin/knowledge-gaps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messageIds: cluster.questions.map((item) => item.messageId),
+          title: dismiss ? cluster.question.slice(0, 200) : assignment.title,
+          note: dismiss ? undefined : assignment.note || undefined,
+          assignedToId: dismiss ? undefined : assignment.assignedToId,
+          dismiss,
+        }),
+      });
+
+      if (res.ok) {
+        setAssigningKey(null);
+        fetchReport();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to save knowledge gap');
+      }
+    } catch (error) {
+      alert('Error saving knowledge gap');
+    }
+  }
+
+  async function updateGap(gap: KnowledgeGap, status: KnowledgeGap['status']) {
+    try {
+      const res = await fetch(`/api/admin/knowledge-gaps/${gap.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+      });
+
+      if (res.ok) {
+        fetchReport();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to update knowledge gap');
+      }
+    } catch (error) {
+      alert('Error updating knowledge gap');
+    }
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">Knowledge Gaps</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Questions the chatbot couldn&apos;t answer from the knowledge base, grouped by topic
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white shadow rounded-lg p-4 mb-6 flex flex-wrap gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Period</label>
+              <select
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="30">Last 30 days</option>
+                <option value="90">Last 90 days</option>
+                <option value="180">Last 180 days</option>
+                <option value="365">Last year</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Summary */}
+          {summary && (
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-6">
+              <div className="bg-white shadow rounded-lg p-4">
+                <p className="text-xs font-medium text-gray-500 uppercase">Answers</p>
+                <p className="mt-1 text-2xl font-semibold text-gray-900">{summary.answered}</p>
+              </div>
+              <div className="bg-white shadow rounded-lg p-4">
+                <p className="text-xs font-medium text-gray-500 uppercase">Low confidence</p>
+                <p className="mt-1 text-2xl font-semibold text-gray-900">
+                  {summary.lowConfidence}
+                  {summary.lowConfidenceRate !== null && (
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {(summary.lowConfidenceRate * 100).toFixed(1)}%
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div className="bg-white shadow rounded-lg p-4">
+                <p className="text-xs font-medium text-gray-500 uppercase">By reason</p>
+                <ul className="mt-1 text-sm text-gray-700">
+                  {Object.entries(REASON_LABELS).map(([value, label]) => (
+                    <li key={value}>
+                      {label}: {summary.byReason[value] || 0}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div className="bg-white shadow rounded-lg p-4">
+                <p className="text-xs font-medium text-gray-500 uppercase">Average sources retrieved</p>
+                <p className="mt-1 text-2xl font-semibold text-gray-900">
+                  {summary.averageRetrievalHits !== null ? summary.averageRetrievalHits.toFixed(1) : '-'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Clusters */}
+          <h2 className="text-lg font-medium text-gray-900 mb-3">Unanswered questions</h2>
+          {summary && summary.clusteredQuestions >= summary.questionLimit && (
+            <p className="text-sm text-gray-500 mb-3">
+              Showing the {summary.questionLimit} most recent unanswered questions. Assign or dismiss clusters, or
+              shorten the period, to see older ones.
+            </p>
+          )}
+          {loading ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+              Loading report...
+            </div>
+          ) : clusters.length === 0 ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+              No unanswered questions in this period.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {clusters.map((cluster) => (
+                <div key={cluster.key} className="bg-white shadow rounded-lg p-6">
+                  <div className="flex justify-between items-start">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{cluster.question}</p>
+                      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                        <span className="font-semibold text-gray-700">
+                          Asked {cluster.count} {cluster.count === 1 ? 'time' : 'times'}
+                        </span>
+                        <span>Last asked {new Date(cluster.lastAskedAt).toLocaleDateString()}</span>
+                        {Object.entries(cluster.reasons).map(([reason, count]) => (
+                          <span key={reason} className="px-2 inline-flex leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                            {REASON_LABELS[reason] || reason}: {count}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    {assigningKey !== cluster.key && (
+                      <div className="ml-4 flex space-x-3 text-sm font-medium">
+                        <button
+                          onClick={() => startAssignment(cluster)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          Assign
+                        </button>
+                        <button
+                          onClick={() => createGap(cluster, true)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {cluster.count > 1 && (
+                    <details className="mt-3">
+                      <summary className="cursor-pointer text-xs font-semibold text-gray-500 uppercase">
+                        All questions ({cluster.count})
+                      </summary>
+                      <ul className="mt-2 space-y-1 text-sm text-gray-700">
+                        {cluster.questions.map((item) => (
+                          <li key={item.messageId}>
+                            <span className="text-xs text-gray-500 mr-2">
+                              {new Date(item.askedAt).toLocaleDateString()}
+                            </span>
+                            {item.question}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+
+                  {assigningKey === cluster.key && (
+                    <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Topic</label>
+                        <input
+                          type="text"
+                          value={assignment.title}
+                          onChange={(e) => setAssignment({ ...assignment, title: e.target.value })}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">RTW Liaison</label>
+                        <select
+                          value={assignment.assignedToId}
+                          onChange={(e) => setAssignment({ ...assignment, assignedToId: e.target.value })}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          {liaisons.length === 0 && <option value="">No active liaisons</option>}
+                          {liaisons.map((liaison) => (
+                            <option key={liaison.id} value={liaison.id}>
+                              {liaison.fullName}{liaison.department && ` (${liaison.department})`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Note (optional)</label>
+                        <textarea
+                          rows={3}
+                          value={assignment.note}
+                          onChange={(e) => setAssignment({ ...assignment, note: e.target.value })}
+                          placeholder="What the new training document should cover"
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div className="flex justify-end space-x-3">
+                        <button
+                          onClick={() => setAssigningKey(null)}
+                          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => createGap(cluster, false)}
+                          disabled={!assignment.assignedToId}
+                          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Assign to Liaison
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Recorded gaps */}
+          <div className="mt-8 mb-3 flex justify-between items-center">
+            <h2 className="text-lg font-medium text-gray-900">Assigned gaps</h2>
+            <select
+              value={gapStatus}
+              onChange={(e) => setGapStatus(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="ASSIGNED">Assigned</option>
+              <option value="RESOLVED">Resolved</option>
+              <option value="DISMISSED">Dismissed</option>
+              <option value="ALL">All</option>
+            </select>
+          </div>
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            {gaps.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No knowledge gaps with this status.</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Topic
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Liaison
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Questions
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {gaps.map((gap) => (
+                    <tr key={gap.id}>
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{gap.title}</div>
+                        {gap.note && <div className="mt-1 text-xs text-gray-500">{gap.note}</div>}
+                        {gap.trainingDocument && (
+                          <div className="mt-1 text-xs text-green-700">Filled by &quot;{gap.trainingDocument.title}&quot;</div>
+                        )}
+                        <div className="mt-1 text-xs text-gray-500">
+                          {new Date(gap.createdAt).toLocaleDateString()} by {gap.createdBy.fullName}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[gap.status]}`}>
+                          {gap.status.charAt(0) + gap.status.slice(1).toLowerCase()}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {gap.assignedTo?.fullName || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{gap._count.messages}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                        {gap.status === 'ASSIGNED' ? (
+                          <>
+                            <button
+                              onClick={() => updateGap(gap, 'RESOLVED')}
+                              className="text-green-600 hover:text-green-900"
+                            >
+                              Mark Resolved
+                            </button>
+                            <button
+                              onClick={() => updateGap(gap, 'DISMISSED')}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              Dismiss
+                            </button>
+                          </>
+                        ) : (
+                          gap.assignedTo && (
+                            <button
+                              onClick={() => updateGap(gap, 'ASSIGNED')}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              Reopen
+                            </button>
+                          )
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
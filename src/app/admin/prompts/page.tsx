@@ -0,0 +1,412 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navbar from '@/components/Navbar';
+
+interface VersionStats {
+  answers: number;
+  lowConfidence: number;
+  helpful: number;
+  notHelpful: number;
+}
+
+interface PromptVersion {
+  id: string;
+  version: number;
+  body: string;
+  note: string | null;
+  status: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+  publishedAt: string | null;
+  createdAt: string;
+  createdBy: { id: string; fullName: string };
+  publishedBy: { id: string; fullName: string } | null;
+  stats: VersionStats;
+}
+
+interface PromptData {
+  versions: PromptVersion[];
+  builtIn: { body: string; stats: VersionStats };
+  variables: Record<string, string>;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  DRAFT: 'bg-yellow-100 text-yellow-800',
+  PUBLISHED: 'bg-green-100 text-green-800',
+  ARCHIVED: 'bg-gray-100 text-gray-800',
+};
+
+function rate(count: number, total: number) {
+  return total > 0 ? `${((count / total) * 100).toFixed(0)}%` : '-';
+}
+
+function StatsCells({ stats }: { stats: VersionStats }) {
+  const rated = stats.helpful + stats.notHelpful;
+  return (
+    <>
+      <td className="px-6 py-4 text-sm text-gray-700 text-right">{stats.answers}</td>
+      <td className="px-6 py-4 text-sm text-gray-700 text-right">
+        {rate(stats.helpful, rated)}
+        {rated > 0 && <span className="ml-1 text-xs text-gray-500">of {rated}</span>}
+      </td>
+      <td className="px-6 py-4 text-sm text-gray-700 text-right">{rate(stats.lowConfidence, stats.answers)}</td>
+    </>
+  );
+}
+
+export default function AdminPromptsPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [data, setData] = useState<PromptData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null); // Draft being edited; null for a new draft
+  const [showEditor, setShowEditor] = useState(false);
+  const [draft, setDraft] = useState({ body: '', note: '' });
+  const [saving, setSaving] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (session?.user?.role !== 'ADMIN') {
+      router.push('/dashboard');
+      return;
+    }
+
+    fetchVersions();
+  }, [session, router]);
+
+  async function fetchVersions() {
+    try {
+      const res = await fetch('/api/admin/prompts');
+      if (res.ok) {
+        setData(await res.json());
+      }
+    } catch (error) {
+      console.error('Error fetching prompt versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const live = data?.versions.find((version) => version.status === 'PUBLISHED');
+
+  function startDraft(from?: PromptVersion) {
+    setEditingId(null);
+    setDraft({ body: from?.body ?? live?.body ?? data?.builtIn.body ?? '', note: '' });
+    setShowEditor(true);
+  }
+
+  function editDraft(version: PromptVersion) {
+    setEditingId(version.id);
+    setDraft({ body: version.body, note: version.note || '' });
+    setShowEditor(true);
+  }
+
+  async function saveDraft(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const res = await fetch(editingId ? `/api/admin/prompts/${editingId}` : '/api/admin/prompts', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ body: draft.body, note: draft.note || undefined }),
+      });
+
+      if (res.ok) {
+        setShowEditor(false);
+        fetchVersions();
+      } else {
+        const result = await res.json();
+        alert(result.error || 'Failed to save draft');
+      }
+    } catch (error) {
+      alert('Error saving draft');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function publish(version: PromptVersion) {
+    const message =
+      version.status === 'ARCHIVED'
+        ? `Roll back to version ${version.version}? It will be used for all new answers.`
+        : `Publish version ${version.version}? It will be used for all new answers.`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/admin/prompts/${version.id}/publish`, {
+        method: 'POST',
+      });
+
+      if (res.ok) {
+        fetchVersions();
+      } else {
+        const result = await res.json();
+        alert(result.error || 'Failed to publish version');
+      }
+    } catch (error) {
+      alert('Error publishing version');
+    }
+  }
+
+  async function evaluate(version: PromptVersion) {
+    if (!confirm(`Run the evaluation golden set with version ${version.version}? This may take a few minutes.`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch('/api/admin/evaluation/runs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ promptTemplateId: version.id, label: `Prompt v${version.version}` }),
+      });
+
+      if (res.ok) {
+        router.push('/admin/evaluation');
+      } else {
+        const result = await res.json();
+        alert(result.error || 'Failed to run evaluation');
+      }
+    } catch (error) {
+      alert('Error running evaluation');
+    }
+  }
+
+  async function deleteDraft(version: PromptVersion) {
+    if (!confirm(`Delete draft version ${version.version}?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/admin/prompts/${version.id}`, {
+        method: 'DELETE',
+      });
+
+      if (res.ok) {
+        fetchVersions();
+      } else {
+        alert('Failed to delete draft');
+      }
+    } catch (error) {
+      alert('Error deleting draft');
+    }
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <div className="mb-6 flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Chatbot Prompt</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                {live
+                  ? `Version ${live.version} is live${live.publishedBy ? `, published by ${live.publishedBy.fullName}` : ''}`
+                  : 'The built-in prompt is live. Publish a version to replace it.'}
+              </p>
+            </div>
+            {!showEditor && (
+              <button
+                onClick={() => startDraft()}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                New Draft
+              </button>
+            )}
+          </div>
+
+          {showEditor && data && (
+            <form onSubmit={saveDraft} className="bg-white shadow rounded-lg p-6 mb-6 space-y-4">
+              <h2 className="text-lg font-medium text-gray-900">
+                {editingId ? 'Edit draft' : 'New draft'}
+              </h2>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Prompt</label>
+                <textarea
+                  rows={20}
+                  value={draft.body}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <div className="mt-2 text-xs text-gray-500">
+                  <p className="font-semibold">Variables</p>
+                  <ul className="mt-1 space-y-0.5">
+                    {Object.entries(data.variables).map(([name, description]) => (
+                      <li key={name}>
+                        <code className="text-gray-700">{`{{${name}}}`}</code> {description}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">What changed (optional)</label>
+                <input
+                  type="text"
+                  value={draft.note}
+                  onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setShowEditor(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Draft'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <p className="mb-3 text-sm text-gray-600">
+            Drafts can be evaluated against the golden set before publishing (see{' '}
+            <Link href="/admin/evaluation" className="text-blue-600 hover:text-blue-500">
+              Evaluation
+            </Link>
+            ). Published versions can&apos;t be edited; roll back by publishing an archived version.
+          </p>
+
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            {loading ? (
+              <div className="p-8 text-center text-gray-500">Loading versions...</div>
+            ) : data && (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Version
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Answers
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Rated helpful
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Low confidence
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {data.versions.map((version) => (
+                    <tr key={version.id} className="align-top">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">Version {version.version}</div>
+                        {version.note && <div className="text-sm text-gray-600">{version.note}</div>}
+                        <div className="text-xs text-gray-500">
+                          {version.createdBy.fullName}, {new Date(version.createdAt).toLocaleDateString()}
+                        </div>
+                        {viewingId === version.id && (
+                          <pre className="mt-2 p-3 bg-gray-50 rounded text-xs text-gray-700 whitespace-pre-wrap max-w-xl">
+                            {version.body}
+                          </pre>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[version.status]}`}>
+                          {version.status === 'PUBLISHED' ? 'Live' : version.status === 'DRAFT' ? 'Draft' : 'Archived'}
+                        </span>
+                      </td>
+                      <StatsCells stats={version.stats} />
+                      <td className="px-6 py-4 text-right text-sm font-medium space-x-3 whitespace-nowrap">
+                        <button
+                          onClick={() => setViewingId(viewingId === version.id ? null : version.id)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {viewingId === version.id ? 'Hide' : 'View'}
+                        </button>
+                        {version.status === 'DRAFT' ? (
+                          <>
+                            <button onClick={() => editDraft(version)} className="text-blue-600 hover:text-blue-900">
+                              Edit
+                            </button>
+                            <button onClick={() => evaluate(version)} className="text-blue-600 hover:text-blue-900">
+                              Evaluate
+                            </button>
+                            <button onClick={() => publish(version)} className="text-green-600 hover:text-green-900">
+                              Publish
+                            </button>
+                            <button onClick={() => deleteDraft(version)} className="text-red-600 hover:text-red-900">
+                              Delete
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button onClick={() => startDraft(version)} className="text-blue-600 hover:text-blue-900">
+                              Copy to Draft
+                            </button>
+                            {version.status === 'ARCHIVED' && (
+                              <button onClick={() => publish(version)} className="text-green-600 hover:text-green-900">
+                                Roll Back
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="align-top">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">Built-in</div>
+                      <div className="text-xs text-gray-500">Used when no version is published</div>
+                      {viewingId === 'built-in' && (
+                        <pre className="mt-2 p-3 bg-gray-50 rounded text-xs text-gray-700 whitespace-pre-wrap max-w-xl">
+                          {data.builtIn.body}
+                        </pre>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      {!live && (
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES.PUBLISHED}`}>
+                          Live
+                        </span>
+                      )}
+                    </td>
+                    <StatsCells stats={data.builtIn.stats} />
+                    <td className="px-6 py-4 text-right text-sm font-medium space-x-3 whitespace-nowrap">
+                      <button
+                        onClick={() => setViewingId(viewingId === 'built-in' ? null : 'built-in')}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        {viewingId === 'built-in' ? 'Hide' : 'View'}
+                      </button>
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
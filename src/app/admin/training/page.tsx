@@ -0,0 +1,838 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navbar from '@/components/Navbar';
+
+interface TrainingDocument {
+  id: string;
+  title: string;
+  documentType: string;
+  isActive: boolean;
+  visibleToRoles: string[];
+  visibleToDepartments: string[];
+  visibilityTier: string;
+  createdAt: string;
+  preview: string;
+  contentLength: number;
+  headline?: string;
+  uploadedBy: {
+    id: string;
+    fullName: string;
+  };
+  sourcePost: {
+    id: string;
+    title: string;
+  } | null;
+  file: {
+    fileName: string;
+    size: number;
+  } | null;
+  _count: {
+    chunks: number;
+  };
+}
+
+interface TrainingDocumentDetail {
+  id: string;
+  title: string;
+  content: string;
+  documentType: string;
+  isActive: boolean;
+  visibleToRoles: string[];
+  visibleToDepartments: string[];
+  file: {
+    fileName: string;
+    mimeType: string;
+    size: number;
+  } | null;
+  chunks: {
+    id: string;
+    chunkIndex: number;
+    heading: string | null;
+    tokenCount: number;
+  }[];
+}
+
+const DOCUMENT_TYPES = [
+  { value: 'COMPLIANCE', label: 'Compliance' },
+  { value: 'QA', label: 'Q&A' },
+  { value: 'JOB_DESC', label: 'Job Description' },
+  { value: 'BRIDGE', label: 'Bridge Assignment' },
+  { value: 'FORUM_POST', label: 'Forum Post' },
+];
+
+interface UploadResult {
+  fileName: string;
+  status: 'created' | 'failed';
+  title?: string;
+  error?: string;
+}
+
+const UPLOAD_TYPES = DOCUMENT_TYPES.filter((type) => type.value !== 'FORUM_POST');
+
+const ROLES = [
+  { value: 'MEMBER', label: 'Member' },
+  { value: 'LIAISON', label: 'Liaison' },
+  { value: 'LEGAL', label: 'Legal' },
+  { value: 'ADMIN', label: 'Admin' },
+];
+
+const VISIBILITY_LABELS: Record<string, string> = {
+  DEPARTMENT: 'Department only',
+  ROLE: 'Role only',
+  ROLE_AND_DEPARTMENT: 'Role and department',
+};
+
+interface Visibility {
+  roles: string[];
+  departments: string; // Comma-separated as typed
+}
+
+const emptyVisibility: Visibility = { roles: [], departments: '' };
+
+const emptyForm = { title: '', documentType: 'COMPLIANCE', content: '', visibility: emptyVisibility };
+
+function parseDepartments(departments: string): string[] {
+  return departments
+    .split(',')
+    .map((department) => department.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Role and department restrictions for a document
+ */
+function VisibilityFields({ value, onChange }: { value: Visibility; onChange: (value: Visibility) => void }) {
+  function toggleRole(role: string) {
+    onChange({
+      ...value,
+      roles: value.roles.includes(role) ? value.roles.filter((r) => r !== role) : [...value.roles, role],
+    });
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Visible to</label>
+      <div className="mt-2 flex flex-wrap gap-4">
+        {ROLES.map((role) => (
+          <label key={role.value} className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.roles.includes(role.value)}
+              onChange={() => toggleRole(role.value)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <span className="ml-2">{role.label}</span>
+          </label>
+        ))}
+      </div>
+      <input
+        type="text"
+        value={value.departments}
+        onChange={(e) => onChange({ ...value, departments: e.target.value })}
+        placeholder="Departments, comma-separated"
+        className="mt-2 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+      />
+      <p className="mt-1 text-xs text-gray-500">
+        Leave blank for everyone. With both roles and departments set, users must match both. Admins always see every document.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Render a search headline, highlighting the <<matched>> terms
+ */
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<<.*?>>)/g).map((part, idx) =>
+        part.startsWith('<<') && part.endsWith('>>') ? (
+          <mark key={idx} className="bg-yellow-200">{part.slice(2, -2)}</mark>
+        ) : (
+          <span key={idx}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function AdminTrainingPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [documents, setDocuments] = useState<TrainingDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [documentType, setDocumentType] = useState('');
+  const [isActive, setIsActive] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState<TrainingDocumentDetail | null>(null);
+  const [showUpload, setShowUpload] = useState(false);
+  const [uploadFiles, setUploadFiles] = useState<File[]>([]);
+  const [uploadType, setUploadType] = useState('COMPLIANCE');
+  const [uploadTitle, setUploadTitle] = useState('');
+  const [uploadVisibility, setUploadVisibility] = useState(emptyVisibility);
+  const [uploadResults, setUploadResults] = useState<UploadResult[] | null>(null);
+  const [uploadError, setUploadError] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    if (session?.user?.role !== 'ADMIN') {
+      router.push('/dashboard');
+      return;
+    }
+
+    fetchDocuments();
+  }, [session, router, documentType, isActive, searchQuery, page]);
+
+  async function fetchDocuments() {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: page.toString() });
+      if (documentType) params.set('documentType', documentType);
+      if (isActive) params.set('isActive', isActive);
+      if (searchQuery) params.set('q', searchQuery);
+
+      const res = await fetch(`/api/admin/training-documents?${params}`);
+      if (res.ok) {
+        const data = await res.json();
+        setDocuments(data.documents || []);
+        setTotalPages(data.pagination.totalPages || 1);
+      }
+    } catch (error) {
+      console.error('Error fetching training documents:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchDocument(id: string): Promise<TrainingDocumentDetail | null> {
+    const res = await fetch(`/api/admin/training-documents/${id}`);
+    if (!res.ok) {
+      alert('Failed to load document');
+      return null;
+    }
+    return res.json();
+  }
+
+  function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    setPage(1);
+    setSearchQuery(searchInput.trim());
+  }
+
+  function openCreateForm() {
+    setEditingId(null);
+    setForm(emptyForm);
+    setFormError('');
+    setShowForm(true);
+  }
+
+  async function openEditForm(id: string) {
+    const document = await fetchDocument(id);
+    if (!document) return;
+
+    setEditingId(id);
+    setForm({
+      title: document.title,
+      documentType: document.documentType,
+      content: document.content,
+      visibility: {
+        roles: document.visibleToRoles,
+        departments: document.visibleToDepartments.join(', '),
+      },
+    });
+    setFormError('');
+    setShowForm(true);
+  }
+
+  async function openPreview(id: string) {
+    const document = await fetchDocument(id);
+    if (document) setPreview(document);
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setFormError('');
+
+    const { visibility, ...fields } = form;
+
+    try {
+      const res = await fetch(
+        editingId ? `/api/admin/training-documents/${editingId}` : '/api/admin/training-documents',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            ...fields,
+            visibleToRoles: visibility.roles,
+            visibleToDepartments: parseDepartments(visibility.departments),
+          }),
+        }
+      );
+
+      if (res.ok) {
+        setShowForm(false);
+        fetchDocuments();
+      } else {
+        const data = await res.json();
+        setFormError(data.error || 'Failed to save document');
+      }
+    } catch (error) {
+      setFormError('Error saving document');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function openUpload() {
+    setUploadFiles([]);
+    setUploadTitle('');
+    setUploadVisibility(emptyVisibility);
+    setUploadResults(null);
+    setUploadError('');
+    setShowUpload(true);
+  }
+
+  async function handleUpload(e: React.FormEvent) {
+    e.preventDefault();
+    setUploading(true);
+    setUploadError('');
+    setUploadResults(null);
+
+    try {
+      const formData = new FormData();
+      uploadFiles.forEach((file) => formData.append('files', file));
+      formData.append('documentType', uploadType);
+      if (uploadFiles.length === 1 && uploadTitle.trim()) {
+        formData.append('title', uploadTitle.trim());
+      }
+      uploadVisibility.roles.forEach((role) => formData.append('visibleToRoles', role));
+      formData.append('visibleToDepartments', uploadVisibility.departments);
+
+      const res = await fetch('/api/admin/training-documents/upload', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await res.json();
+      if (data.results) {
+        setUploadResults(data.results);
+        if (data.created > 0) fetchDocuments();
+      } else {
+        setUploadError(data.error || 'Failed to upload files');
+      }
+    } catch (error) {
+      setUploadError('Error uploading files');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function toggleActive(document: TrainingDocument) {
+    try {
+      const res = await fetch(`/api/admin/training-documents/${document.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !document.isActive }),
+      });
+
+      if (res.ok) {
+        fetchDocuments();
+      }
+    } catch (error) {
+      console.error('Error updating training document:', error);
+    }
+  }
+
+  async function handleDelete(document: TrainingDocument) {
+    if (!confirm(`Delete "${document.title}"? Deactivating keeps it for later; deleting cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/admin/training-documents/${document.id}`, {
+        method: 'DELETE',
+      });
+
+      if (res.ok) {
+        fetchDocuments();
+      } else {
+        alert('Failed to delete document');
+      }
+    } catch (error) {
+      alert('Error deleting document');
+    }
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Chatbot Training</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Manage the documents the chatbot searches when answering questions
+              </p>
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={openUpload}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <svg className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+                Upload Files
+              </button>
+              <button
+                onClick={openCreateForm}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                <svg className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                Add Document
+              </button>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white shadow rounded-lg p-4 mb-6 flex flex-wrap items-end gap-4">
+            <form onSubmit={handleSearch} className="flex-1 min-w-[16rem]">
+              <label className="block text-xs font-medium text-gray-700">Search</label>
+              <div className="mt-1 flex space-x-2">
+                <input
+                  type="text"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder='e.g. interactive process or "bridge assignment"'
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Search
+                </button>
+              </div>
+            </form>
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Type</label>
+              <select
+                value={documentType}
+                onChange={(e) => {
+                  setDocumentType(e.target.value);
+                  setPage(1);
+                }}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All types</option>
+                {DOCUMENT_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Status</label>
+              <select
+                value={isActive}
+                onChange={(e) => {
+                  setIsActive(e.target.value);
+                  setPage(1);
+                }}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All</option>
+                <option value="true">Active</option>
+                <option value="false">Inactive</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Create / Edit Modal */}
+          {showForm && (
+            <div className="fixed z-10 inset-0 overflow-y-auto">
+              <div className="flex items-center justify-center min-h-screen px-4">
+                <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"></div>
+
+                <div className="relative bg-white rounded-lg max-w-3xl w-full p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">
+                    {editingId ? 'Edit Document' : 'Add Document'}
+                  </h3>
+
+                  <form onSubmit={handleSave} className="space-y-4">
+                    {formError && (
+                      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded text-sm">
+                        {formError}
+                      </div>
+                    )}
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Title</label>
+                      <input
+                        type="text"
+                        required
+                        value={form.title}
+                        onChange={(e) => setForm({ ...form, title: e.target.value })}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Type</label>
+                      <select
+                        value={form.documentType}
+                        onChange={(e) => setForm({ ...form, documentType: e.target.value })}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {DOCUMENT_TYPES.map((type) => (
+                          <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Content</label>
+                      <textarea
+                        required
+                        rows={14}
+                        value={form.content}
+                        onChange={(e) => setForm({ ...form, content: e.target.value })}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        Headings (e.g. &quot;Section 12940&quot; or &quot;## Key Points&quot;) are used to split the document for search.
+                      </p>
+                    </div>
+
+                    <VisibilityFields
+                      value={form.visibility}
+                      onChange={(visibility) => setForm({ ...form, visibility })}
+                    />
+
+                    <div className="flex justify-end space-x-3 mt-6">
+                      <button
+                        type="button"
+                        onClick={() => setShowForm(false)}
+                        className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={saving}
+                        className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Document'}
+                      </button>
+                    </div>
+                  </form>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Upload Modal */}
+          {showUpload && (
+            <div className="fixed z-10 inset-0 overflow-y-auto">
+              <div className="flex items-center justify-center min-h-screen px-4">
+                <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"></div>
+
+                <div className="relative bg-white rounded-lg max-w-lg w-full p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Upload Files</h3>
+
+                  <form onSubmit={handleUpload} className="space-y-4">
+                    {uploadError && (
+                      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded text-sm">
+                        {uploadError}
+                      </div>
+                    )}
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Files</label>
+                      <input
+                        type="file"
+                        multiple
+                        required
+                        accept=".pdf,.docx,.txt"
+                        onChange={(e) => setUploadFiles(Array.from(e.target.files || []))}
+                        className="mt-1 block w-full text-sm text-gray-700"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">PDF, Word (.docx) or plain text, up to 10MB each.</p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Type</label>
+                      <select
+                        value={uploadType}
+                        onChange={(e) => setUploadType(e.target.value)}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {UPLOAD_TYPES.map((type) => (
+                          <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {uploadFiles.length === 1 && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Title (optional)</label>
+                        <input
+                          type="text"
+                          value={uploadTitle}
+                          onChange={(e) => setUploadTitle(e.target.value)}
+                          placeholder="Defaults to the file name"
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    )}
+
+                    <VisibilityFields value={uploadVisibility} onChange={setUploadVisibility} />
+
+                    {uploadResults && (
+                      <ul className="border border-gray-200 rounded-md divide-y divide-gray-200 text-sm">
+                        {uploadResults.map((result, idx) => (
+                          <li key={idx} className="px-3 py-2">
+                            <div className="flex justify-between">
+                              <span className="truncate text-gray-900">{result.fileName}</span>
+                              <span className={result.status === 'created' ? 'text-green-600' : 'text-red-600'}>
+                                {result.status === 'created' ? 'Added' : 'Failed'}
+                              </span>
+                            </div>
+                            {result.error && <p className="text-xs text-red-600">{result.error}</p>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <div className="flex justify-end space-x-3 mt-6">
+                      <button
+                        type="button"
+                        onClick={() => setShowUpload(false)}
+                        className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                      >
+                        {uploadResults ? 'Close' : 'Cancel'}
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={uploading || uploadFiles.length === 0}
+                        className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {uploading ? 'Uploading...' : 'Upload'}
+                      </button>
+                    </div>
+                  </form>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Preview Modal */}
+          {preview && (
+            <div className="fixed z-10 inset-0 overflow-y-auto">
+              <div className="flex items-center justify-center min-h-screen px-4">
+                <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={() => setPreview(null)}></div>
+
+                <div className="relative bg-white rounded-lg max-w-4xl w-full p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">{preview.title}</h3>
+                      <p className="text-sm text-gray-500">
+                        {DOCUMENT_TYPES.find((t) => t.value === preview.documentType)?.label} · {preview.chunks.length} chunks
+                        {!preview.isActive && ' · Inactive'}
+                      </p>
+                      {preview.file && (
+                        <a
+                          href={`/api/admin/training-documents/${preview.id}/file`}
+                          className="text-sm text-blue-600 hover:text-blue-500"
+                        >
+                          Download original ({preview.file.fileName})
+                        </a>
+                      )}
+                    </div>
+                    <button onClick={() => setPreview(null)} className="text-gray-400 hover:text-gray-600">
+                      <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="md:col-span-2 max-h-[60vh] overflow-y-auto whitespace-pre-wrap text-sm text-gray-800 bg-gray-50 rounded p-4">
+                      {preview.content}
+                    </div>
+                    <div className="max-h-[60vh] overflow-y-auto">
+                      <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Sections</p>
+                      <ul className="space-y-1 text-xs text-gray-700">
+                        {preview.chunks.map((chunk) => (
+                          <li key={chunk.id}>
+                            {chunk.chunkIndex + 1}. {chunk.heading || '(no heading)'}{' '}
+                            <span className="text-gray-400">~{chunk.tokenCount} tokens</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Documents Table */}
+          {loading ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+              Loading documents...
+            </div>
+          ) : (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Document
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Type
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Added
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {documents.map((document) => (
+                    <tr key={document.id}>
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{document.title}</div>
+                        <div className="mt-1 text-xs text-gray-500 line-clamp-2">
+                          {document.headline ? <Highlighted text={document.headline} /> : document.preview}
+                        </div>
+                        {document.sourcePost && (
+                          <Link
+                            href={`/forum/posts/${document.sourcePost.id}`}
+                            className="mt-1 inline-block text-xs text-blue-600 hover:text-blue-500"
+                          >
+                            From post: {document.sourcePost.title}
+                          </Link>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                          {DOCUMENT_TYPES.find((t) => t.value === document.documentType)?.label || document.documentType}
+                        </span>
+                        <div className="mt-1 text-xs text-gray-500">{document._count.chunks} chunks</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          document.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {document.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                        {document.visibilityTier !== 'PUBLIC' && (
+                          <div
+                            className="mt-1 text-xs text-amber-700"
+                            title={[...document.visibleToRoles, ...document.visibleToDepartments].join(', ')}
+                          >
+                            {VISIBILITY_LABELS[document.visibilityTier]}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <div>{new Date(document.createdAt).toLocaleDateString()}</div>
+                        <div className="text-xs">{document.uploadedBy.fullName}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                        <button
+                          onClick={() => openPreview(document.id)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          Preview
+                        </button>
+                        <button
+                          onClick={() => openEditForm(document.id)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => toggleActive(document)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          {document.isActive ? 'Deactivate' : 'Activate'}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(document)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {documents.length === 0 && (
+                <div className="text-center py-8 text-gray-500">
+                  {searchQuery ? 'No documents match your search.' : 'No training documents yet.'}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="mt-6 flex justify-center items-center space-x-4 text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-gray-600">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,570 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Navbar from '@/components/Navbar';
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface UsageReport {
+  days: number;
+  totals: UsageTotals;
+  byDay: (UsageTotals & { day: string })[];
+  byDepartment: (UsageTotals & { department: string | null })[];
+  byUser: (UsageTotals & {
+    user: { id: string; fullName: string; department: string | null; role: string } | null;
+  })[];
+  byPurpose: (UsageTotals & { purpose: string })[];
+  quotas: UsageQuota[];
+}
+
+interface AnswerCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number | null;
+  entries: number;
+  byDay: { day: string; hits: number; misses: number }[];
+  topEntries: { id: string; question: string; hitCount: number; lastHitAt: string | null }[];
+}
+
+interface UsageQuota {
+  id: string;
+  role: string | null;
+  department: string | null;
+  dailyTokenLimit: number | null;
+  monthlyTokenLimit: number | null;
+  isActive: boolean;
+}
+
+const ROLES = [
+  { value: 'MEMBER', label: 'Member' },
+  { value: 'LIAISON', label: 'Liaison' },
+  { value: 'LEGAL', label: 'Legal' },
+  { value: 'ADMIN', label: 'Admin' },
+];
+
+const PURPOSE_LABELS: Record<string, string> = {
+  answer: 'Answers',
+  summary: 'Conversation summaries',
+  rewrite: 'Query rewriting',
+  title: 'Conversation titles',
+  suggestions: 'Follow-up suggestions',
+};
+
+const EMPTY_QUOTA = { role: '', department: '', dailyTokenLimit: '', monthlyTokenLimit: '' };
+
+function formatTokens(value: number) {
+  return value.toLocaleString('en-US');
+}
+
+function formatCost(value: number) {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function roleLabel(role: string | null) {
+  return ROLES.find((item) => item.value === role)?.label || 'Any role';
+}
+
+function UsageTable({ label, rows }: { label: string; rows: (UsageTotals & { name: string; key: string })[] }) {
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      {rows.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">No usage in this period.</div>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {label}
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Calls
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Input tokens
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Output tokens
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Cost
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td className="px-6 py-3 text-sm text-gray-900">{row.name}</td>
+                <td className="px-6 py-3 text-sm text-gray-700 text-right">{formatTokens(row.calls)}</td>
+                <td className="px-6 py-3 text-sm text-gray-700 text-right">{formatTokens(row.inputTokens)}</td>
+                <td className="px-6 py-3 text-sm text-gray-700 text-right">{formatTokens(row.outputTokens)}</td>
+                <td className="px-6 py-3 text-sm text-gray-700 text-right">{formatCost(row.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function AdminUsagePage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [cache, setCache] = useState<AnswerCacheStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState('30');
+  const [quotaForm, setQuotaForm] = useState(EMPTY_QUOTA);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (session?.user?.role !== 'ADMIN') {
+      router.push('/dashboard');
+      return;
+    }
+
+    fetchReport();
+  }, [session, router, days]);
+
+  async function fetchReport() {
+    try {
+      setLoading(true);
+      const [res, cacheRes] = await Promise.all([
+        fetch(`/api/admin/usage?days=${days}`),
+        fetch(`/api/admin/usage/answer-cache?days=${days}`),
+      ]);
+      if (res.ok) {
+        setReport(await res.json());
+      }
+      if (cacheRes.ok) {
+        setCache(await cacheRes.json());
+      }
+    } catch (error) {
+      console.error('Error fetching usage:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function createQuota(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const res = await fetch('/api/admin/usage/quotas', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          role: quotaForm.role || null,
+          department: quotaForm.department || null,
+          dailyTokenLimit: quotaForm.dailyTokenLimit ? parseInt(quotaForm.dailyTokenLimit) : null,
+          monthlyTokenLimit: quotaForm.monthlyTokenLimit ? parseInt(quotaForm.monthlyTokenLimit) : null,
+        }),
+      });
+
+      if (res.ok) {
+        setQuotaForm(EMPTY_QUOTA);
+        fetchReport();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to create quota');
+      }
+    } catch (error) {
+      alert('Error creating quota');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function clearCache() {
+    if (!confirm('Clear every cached answer? Questions will be answered by the model until the cache fills again.')) {
+      return;
+    }
+
+    try {
+      const res = await fetch('/api/admin/usage/answer-cache', {
+        method: 'DELETE',
+      });
+
+      if (res.ok) {
+        fetchReport();
+      } else {
+        alert('Failed to clear the answer cache');
+      }
+    } catch (error) {
+      alert('Error clearing the answer cache');
+    }
+  }
+
+  async function toggleQuota(quota: UsageQuota) {
+    try {
+      const res = await fetch(`/api/admin/usage/quotas/${quota.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !quota.isActive }),
+      });
+
+      if (res.ok) {
+        fetchReport();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to update quota');
+      }
+    } catch (error) {
+      alert('Error updating quota');
+    }
+  }
+
+  async function deleteQuota(quota: UsageQuota) {
+    if (!confirm('Delete this quota?')) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/admin/usage/quotas/${quota.id}`, {
+        method: 'DELETE',
+      });
+
+      if (res.ok) {
+        fetchReport();
+      } else {
+        alert('Failed to delete quota');
+      }
+    } catch (error) {
+      alert('Error deleting quota');
+    }
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">Chatbot Usage</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Token usage and estimated cost of chatbot answers, and quotas by role or department
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white shadow rounded-lg p-4 mb-6 flex flex-wrap gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Period</label>
+              <select
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="7">Last 7 days</option>
+                <option value="30">Last 30 days</option>
+                <option value="90">Last 90 days</option>
+                <option value="365">Last year</option>
+              </select>
+            </div>
+          </div>
+
+          {loading && !report ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+              Loading usage...
+            </div>
+          ) : report && (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-6">
+                <div className="bg-white shadow rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500 uppercase">Model calls</p>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">{formatTokens(report.totals.calls)}</p>
+                </div>
+                <div className="bg-white shadow rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500 uppercase">Input tokens</p>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">
+                    {formatTokens(report.totals.inputTokens)}
+                  </p>
+                </div>
+                <div className="bg-white shadow rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500 uppercase">Output tokens</p>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">
+                    {formatTokens(report.totals.outputTokens)}
+                  </p>
+                </div>
+                <div className="bg-white shadow rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500 uppercase">Estimated cost</p>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">{formatCost(report.totals.costUsd)}</p>
+                </div>
+              </div>
+
+              <h2 className="text-lg font-medium text-gray-900 mb-3">By department</h2>
+              <div className="mb-6">
+                <UsageTable
+                  label="Department"
+                  rows={report.byDepartment.map((row) => ({
+                    ...row,
+                    key: row.department || '',
+                    name: row.department || 'No department',
+                  }))}
+                />
+              </div>
+
+              <h2 className="text-lg font-medium text-gray-900 mb-3">Top users</h2>
+              <div className="mb-6">
+                <UsageTable
+                  label="User"
+                  rows={report.byUser.map((row) => ({
+                    ...row,
+                    key: row.user?.id || 'deleted',
+                    name: row.user
+                      ? `${row.user.fullName}${row.user.department ? ` (${row.user.department})` : ''}`
+                      : 'Deleted user',
+                  }))}
+                />
+              </div>
+
+              <h2 className="text-lg font-medium text-gray-900 mb-3">By day (UTC)</h2>
+              <div className="mb-6">
+                <UsageTable
+                  label="Day"
+                  rows={report.byDay.map((row) => ({
+                    ...row,
+                    key: row.day,
+                    name: new Date(row.day).toLocaleDateString(undefined, { timeZone: 'UTC' }),
+                  }))}
+                />
+              </div>
+
+              <h2 className="text-lg font-medium text-gray-900 mb-3">By purpose</h2>
+              <div className="mb-8">
+                <UsageTable
+                  label="Purpose"
+                  rows={report.byPurpose.map((row) => ({
+                    ...row,
+                    key: row.purpose,
+                    name: PURPOSE_LABELS[row.purpose] || row.purpose,
+                  }))}
+                />
+              </div>
+
+              {/* Answer cache */}
+              {cache && (
+                <>
+                  <div className="flex items-center justify-between mb-1">
+                    <h2 className="text-lg font-medium text-gray-900">Answer cache</h2>
+                    <button
+                      onClick={clearCache}
+                      className="text-sm font-medium text-red-600 hover:text-red-900"
+                    >
+                      Clear cache
+                    </button>
+                  </div>
+                  <p className="mb-3 text-sm text-gray-600">
+                    First questions in a conversation are answered from the cache when a similar question retrieved
+                    the same documents, unchanged. Only questions that could be cached count towards the hit rate.
+                  </p>
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-4">
+                    <div className="bg-white shadow rounded-lg p-4">
+                      <p className="text-xs font-medium text-gray-500 uppercase">Hit rate</p>
+                      <p className="mt-1 text-2xl font-semibold text-gray-900">
+                        {cache.hitRate !== null ? `${Math.round(cache.hitRate * 100)}%` : '-'}
+                      </p>
+                    </div>
+                    <div className="bg-white shadow rounded-lg p-4">
+                      <p className="text-xs font-medium text-gray-500 uppercase">Cached answers served</p>
+                      <p className="mt-1 text-2xl font-semibold text-gray-900">{formatTokens(cache.hits)}</p>
+                    </div>
+                    <div className="bg-white shadow rounded-lg p-4">
+                      <p className="text-xs font-medium text-gray-500 uppercase">Misses</p>
+                      <p className="mt-1 text-2xl font-semibold text-gray-900">{formatTokens(cache.misses)}</p>
+                    </div>
+                    <div className="bg-white shadow rounded-lg p-4">
+                      <p className="text-xs font-medium text-gray-500 uppercase">Answers in cache</p>
+                      <p className="mt-1 text-2xl font-semibold text-gray-900">{formatTokens(cache.entries)}</p>
+                    </div>
+                  </div>
+                  <div className="bg-white shadow rounded-lg overflow-hidden mb-8">
+                    {cache.topEntries.length === 0 ? (
+                      <div className="p-8 text-center text-gray-500">No cached answers have been reused yet.</div>
+                    ) : (
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Most reused question
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Hits
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Last hit
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {cache.topEntries.map((entry) => (
+                            <tr key={entry.id}>
+                              <td className="px-6 py-3 text-sm text-gray-900">{entry.question}</td>
+                              <td className="px-6 py-3 text-sm text-gray-700 text-right">
+                                {formatTokens(entry.hitCount)}
+                              </td>
+                              <td className="px-6 py-3 text-sm text-gray-700 text-right">
+                                {entry.lastHitAt ? new Date(entry.lastHitAt).toLocaleString() : '-'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                </>
+              )}
+
+              {/* Quotas */}
+              <h2 className="text-lg font-medium text-gray-900 mb-1">Quotas</h2>
+              <p className="mb-3 text-sm text-gray-600">
+                A quota for a role alone applies to each user with that role. A quota naming a department is
+                shared by everyone in it. Days and months are counted in UTC.
+              </p>
+              <div className="bg-white shadow rounded-lg overflow-hidden mb-4">
+                {report.quotas.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">No quotas. Chatbot usage is unlimited.</div>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Applies to
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Daily tokens
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Monthly tokens
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {report.quotas.map((quota) => (
+                        <tr key={quota.id}>
+                          <td className="px-6 py-3 text-sm text-gray-900">
+                            {quota.department
+                              ? `${quota.department} department${quota.role ? `, ${roleLabel(quota.role)}` : ''} (shared)`
+                              : `Each ${roleLabel(quota.role)}`}
+                          </td>
+                          <td className="px-6 py-3 text-sm text-gray-700 text-right">
+                            {quota.dailyTokenLimit !== null ? formatTokens(quota.dailyTokenLimit) : 'Unlimited'}
+                          </td>
+                          <td className="px-6 py-3 text-sm text-gray-700 text-right">
+                            {quota.monthlyTokenLimit !== null ? formatTokens(quota.monthlyTokenLimit) : 'Unlimited'}
+                          </td>
+                          <td className="px-6 py-3">
+                            <span
+                              className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                                quota.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                              }`}
+                            >
+                              {quota.isActive ? 'Active' : 'Inactive'}
+                            </span>
+                          </td>
+                          <td className="px-6 py-3 text-right text-sm font-medium space-x-3">
+                            <button
+                              onClick={() => toggleQuota(quota)}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              {quota.isActive ? 'Deactivate' : 'Activate'}
+                            </button>
+                            <button
+                              onClick={() => deleteQuota(quota)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Delete
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <form onSubmit={createQuota} className="bg-white shadow rounded-lg p-4 grid grid-cols-1 gap-4 sm:grid-cols-5 items-end">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Role</label>
+                  <select
+                    value={quotaForm.role}
+                    onChange={(e) => setQuotaForm({ ...quotaForm, role: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Any role</option>
+                    {ROLES.map((role) => (
+                      <option key={role.value} value={role.value}>
+                        {role.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Department</label>
+                  <input
+                    type="text"
+                    value={quotaForm.department}
+                    onChange={(e) => setQuotaForm({ ...quotaForm, department: e.target.value })}
+                    placeholder="Any department"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Daily tokens</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={quotaForm.dailyTokenLimit}
+                    onChange={(e) => setQuotaForm({ ...quotaForm, dailyTokenLimit: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Monthly tokens</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={quotaForm.monthlyTokenLimit}
+                    onChange={(e) => setQuotaForm({ ...quotaForm, monthlyTokenLimit: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Adding...' : 'Add Quota'}
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
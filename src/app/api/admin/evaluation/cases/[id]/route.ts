@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+const updateCaseSchema = z.object({
+  question: z.string().trim().min(5).max(2000).optional(),
+  expectedDocumentIds: z.array(z.string().uuid()).max(20).optional(),
+  keyFacts: z.array(z.string().trim().min(3).max(500)).max(20).optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// PUT /api/admin/evaluation/cases/[id] - Update a golden-set case (admin only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const existing = await prisma.evaluationCase.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return apiError('Evaluation case not found', 404);
+    }
+
+    const body = await req.json();
+    const validatedData = updateCaseSchema.parse(body);
+
+    const evaluationCase = await prisma.evaluationCase.update({
+      where: { id: params.id },
+      data: validatedData,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'UPDATE_EVALUATION_CASE',
+        entityType: 'EVALUATION_CASE',
+        entityId: evaluationCase.id,
+        metadata: { fields: Object.keys(validatedData) },
+      },
+    });
+
+    return apiResponse(evaluationCase);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error updating evaluation case:', error);
+    return apiError('Failed to update evaluation case', 500);
+  }
+}
+
+// DELETE /api/admin/evaluation/cases/[id] - Delete a golden-set case; past results keep their snapshot (admin only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const existing = await prisma.evaluationCase.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return apiError('Evaluation case not found', 404);
+    }
+
+    await prisma.evaluationCase.delete({
+      where: { id: params.id },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'DELETE_EVALUATION_CASE',
+        entityType: 'EVALUATION_CASE',
+        entityId: params.id,
+        metadata: { question: existing.question },
+      },
+    });
+
+    return apiResponse({ message: 'Evaluation case deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting evaluation case:', error);
+    return apiError('Failed to delete evaluation case', 500);
+  }
+}
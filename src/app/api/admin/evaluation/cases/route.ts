@@ -0,0 +1,146 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { createEvaluationCaseFromMessage } from '@/lib/evaluation';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { z } from 'zod';
+import { Prisma, UserRole } from '@prisma/client';
+
+const createCaseSchema = z
+  .object({
+    // Build the case from a real chatbot answer; question and documents default from it
+    messageId: z.string().uuid().optional(),
+    question: z.string().trim().min(5).max(2000).optional(),
+    expectedDocumentIds: z.array(z.string().uuid()).max(20).optional(),
+    keyFacts: z.array(z.string().trim().min(3).max(500)).max(20).default([]),
+    notes: z.string().trim().max(2000).optional(),
+  })
+  .refine((data) => data.messageId || data.question, {
+    message: 'Question is required',
+  })
+  // Cited sources aren't always the right ones, so the admin confirms them
+  .refine((data) => !data.messageId || data.expectedDocumentIds, {
+    message: 'Confirm the expected source documents',
+  });
+
+// GET /api/admin/evaluation/cases - List golden-set cases (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const isActive = searchParams.get('isActive');
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50')));
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.EvaluationCaseWhereInput = {};
+
+    if (isActive === 'true' || isActive === 'false') {
+      where.isActive = isActive === 'true';
+    }
+
+    const [cases, total] = await Promise.all([
+      prisma.evaluationCase.findMany({
+        where,
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              fullName: true,
+            },
+          },
+          sourceMessage: {
+            select: {
+              id: true,
+              conversationId: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.evaluationCase.count({ where }),
+    ]);
+
+    // Titles for the expected documents, which may since have been deleted
+    const documentIds = Array.from(new Set(cases.flatMap((c) => c.expectedDocumentIds)));
+    const documents = await prisma.trainingDocument.findMany({
+      where: { id: { in: documentIds } },
+      select: { id: true, title: true, isActive: true },
+    });
+    const documentsById = new Map(documents.map((doc) => [doc.id, doc]));
+
+    return apiResponse({
+      cases: cases.map((evaluationCase) => ({
+        ...evaluationCase,
+        expectedDocuments: evaluationCase.expectedDocumentIds.map(
+          (id) => documentsById.get(id) ?? { id, title: null, isActive: false }
+        ),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching evaluation cases:', error);
+    return apiError('Failed to fetch evaluation cases', 500);
+  }
+}
+
+// POST /api/admin/evaluation/cases - Add a golden-set case, optionally from a chatbot answer (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const body = await req.json();
+    const { messageId, ...data } = createCaseSchema.parse(body);
+
+    const evaluationCase = messageId
+      ? await createEvaluationCaseFromMessage(messageId, session.user.id, data)
+      : await prisma.evaluationCase.create({
+          data: {
+            question: data.question!,
+            expectedDocumentIds: data.expectedDocumentIds ?? [],
+            keyFacts: data.keyFacts,
+            notes: data.notes,
+            createdById: session.user.id,
+          },
+        });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'CREATE_EVALUATION_CASE',
+        entityType: 'EVALUATION_CASE',
+        entityId: evaluationCase.id,
+        metadata: { sourceMessageId: messageId },
+      },
+    });
+
+    return apiResponse(evaluationCase, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      return apiError(error.message, error.statusCode);
+    }
+    console.error('Error creating evaluation case:', error);
+    return apiError('Failed to create evaluation case', 500);
+  }
+}
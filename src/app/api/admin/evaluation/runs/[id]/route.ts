@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { compareEvaluationRuns } from '@/lib/evaluation';
+import { NotFoundError } from '@/lib/errors';
+import { UserRole } from '@prisma/client';
+
+// GET /api/admin/evaluation/runs/[id] - Run results compared per case with a baseline run (admin only)
+// The baseline defaults to the previous run; pass ?baseline=<runId> to pick another
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const comparison = await compareEvaluationRuns(params.id, searchParams.get('baseline') || undefined);
+
+    return apiResponse(comparison);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return apiError(error.message, 404);
+    }
+    console.error('Error fetching evaluation run:', error);
+    return apiError('Failed to fetch evaluation run', 500);
+  }
+}
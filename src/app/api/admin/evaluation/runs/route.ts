@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { runEvaluation } from '@/lib/evaluation';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+const runSchema = z.object({
+  k: z.number().int().min(1).max(20).optional(),
+  label: z.string().trim().max(100).optional(),
+  // Evaluate a prompt version (e.g. a draft) instead of the published one
+  promptTemplateId: z.string().uuid().optional(),
+});
+
+// GET /api/admin/evaluation/runs - List evaluation runs, newest first (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const skip = (page - 1) * limit;
+
+    const [runs, total] = await Promise.all([
+      prisma.evaluationRun.findMany({
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.evaluationRun.count(),
+    ]);
+
+    return apiResponse({
+      runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching evaluation runs:', error);
+    return apiError('Failed to fetch evaluation runs', 500);
+  }
+}
+
+// POST /api/admin/evaluation/runs - Run the active golden set with the configured providers and prompt (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const body = await req.json();
+    const validatedData = runSchema.parse(body);
+
+    const run = await runEvaluation(validatedData);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'RUN_CHATBOT_EVALUATION',
+        entityType: 'EVALUATION_RUN',
+        entityId: run.id,
+        metadata: { k: run.k, caseCount: run.caseCount, promptTemplateId: validatedData.promptTemplateId },
+      },
+    });
+
+    return apiResponse(run, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    if (error instanceof ValidationError) {
+      return apiError(error.message, 400);
+    }
+    if (error instanceof NotFoundError) {
+      return apiError(error.message, 404);
+    }
+    console.error('Error running evaluation:', error);
+    return apiError('Failed to run evaluation', 500);
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { createTrainingDocument } from '@/lib/knowledge-base';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+const reviewFeedbackSchema = z.object({
+  status: z.enum(['RESOLVED', 'DISMISSED']),
+  reviewNote: z.string().trim().max(2000).optional(),
+  // Corrected answer to add to the knowledge base as a QA document
+  correction: z
+    .object({
+      title: z.string().trim().min(5).max(200),
+      question: z.string().trim().min(1),
+      answer: z.string().trim().min(10),
+    })
+    .optional(),
+});
+
+// PUT /api/admin/feedback/[id] - Resolve or dismiss feedback (admin only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const feedback = await prisma.chatbotMessageFeedback.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!feedback) {
+      return apiError('Feedback not found', 404);
+    }
+
+    const body = await req.json();
+    const { status, reviewNote, correction } = reviewFeedbackSchema.parse(body);
+
+    if (correction && status !== 'RESOLVED') {
+      return apiError('Only resolved feedback can add a correction', 400);
+    }
+
+    let trainingDocumentId = feedback.trainingDocumentId;
+
+    if (correction) {
+      const document = await createTrainingDocument({
+        title: correction.title,
+        content: `Question: ${correction.question}\n\nAnswer: ${correction.answer}`,
+        documentType: 'QA',
+        uploadedById: session.user.id,
+      });
+      trainingDocumentId = document.id;
+
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: 'CREATE_TRAINING_DOCUMENT',
+          entityType: 'TRAINING_DOCUMENT',
+          entityId: document.id,
+          metadata: { title: document.title, feedbackId: feedback.id },
+        },
+      });
+    }
+
+    const updatedFeedback = await prisma.chatbotMessageFeedback.update({
+      where: { id: feedback.id },
+      data: {
+        status,
+        reviewNote: reviewNote || null,
+        reviewedById: session.user.id,
+        reviewedAt: new Date(),
+        trainingDocumentId,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: status === 'RESOLVED' ? 'RESOLVE_CHATBOT_FEEDBACK' : 'DISMISS_CHATBOT_FEEDBACK',
+        entityType: 'CHATBOT_FEEDBACK',
+        entityId: feedback.id,
+        metadata: { messageId: feedback.messageId, trainingDocumentId },
+      },
+    });
+
+    return apiResponse({ feedback: updatedFeedback });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error reviewing feedback:', error);
+    return apiError('Failed to review feedback', 500);
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { z } from 'zod';
+import { FeedbackRating, FeedbackReason, FeedbackStatus, Prisma, UserRole } from '@prisma/client';
+
+const feedbackQuerySchema = z.object({
+  status: z.union([z.nativeEnum(FeedbackStatus), z.literal('ALL')]).default(FeedbackStatus.PENDING),
+  rating: z.union([z.nativeEnum(FeedbackRating), z.literal('ALL')]).default(FeedbackRating.NOT_HELPFUL),
+  reason: z.nativeEnum(FeedbackReason).optional(),
+});
+
+// GET /api/admin/feedback - Review queue of rated chatbot answers (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const { status, rating, reason } = feedbackQuerySchema.parse({
+      status: searchParams.get('status') || undefined,
+      rating: searchParams.get('rating') || undefined,
+      reason: searchParams.get('reason') || undefined,
+    });
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ChatbotMessageFeedbackWhereInput = {};
+
+    if (status !== 'ALL') {
+      where.status = status;
+    }
+
+    if (rating !== 'ALL') {
+      where.rating = rating;
+    }
+
+    if (reason) {
+      where.reasons = { has: reason };
+    }
+
+    const [feedback, total] = await Promise.all([
+      prisma.chatbotMessageFeedback.findMany({
+        where,
+        include: {
+          message: true,
+          user: {
+            select: {
+              id: true,
+              fullName: true,
+              department: true,
+            },
+          },
+          reviewedBy: {
+            select: {
+              id: true,
+              fullName: true,
+            },
+          },
+          trainingDocument: {
+            select: {
+              id: true,
+              title: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.chatbotMessageFeedback.count({ where }),
+    ]);
+
+    // Pair each answer with the question that prompted it
+    const items = await Promise.all(
+      feedback.map(async (item) => {
+        const question = await prisma.chatbotMessage.findFirst({
+          where: {
+            conversationId: item.message.conversationId,
+            role: 'USER',
+            createdAt: { lt: item.message.createdAt },
+          },
+          orderBy: { createdAt: 'desc' },
+          select: { content: true },
+        });
+
+        return { ...item, question: question?.content ?? null };
+      })
+    );
+
+    return apiResponse({
+      feedback: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error fetching feedback:', error);
+    return apiError('Failed to fetch feedback', 500);
+  }
+}
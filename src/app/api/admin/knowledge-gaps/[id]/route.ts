@@ -0,0 +1,148 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { sendEmail, knowledgeGapAssignedEmail } from '@/lib/email';
+import { findGapQuestions } from '@/lib/knowledge-gaps';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+const updateGapSchema = z.object({
+  status: z.enum(['ASSIGNED', 'RESOLVED', 'DISMISSED']).optional(),
+  assignedToId: z.string().uuid().optional(),
+  // Document written to fill the gap
+  trainingDocumentId: z.string().uuid().nullable().optional(),
+  note: z.string().trim().max(2000).optional(),
+});
+
+// GET /api/admin/knowledge-gaps/[id] - Get a knowledge gap with its questions (admin only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const gap = await prisma.knowledgeGap.findUnique({
+      where: { id: params.id },
+      include: {
+        assignedTo: { select: { id: true, fullName: true } },
+        createdBy: { select: { id: true, fullName: true } },
+        trainingDocument: { select: { id: true, title: true } },
+      },
+    });
+
+    if (!gap) {
+      return apiError('Knowledge gap not found', 404);
+    }
+
+    return apiResponse({ ...gap, questions: await findGapQuestions(gap.id) });
+  } catch (error) {
+    console.error('Error fetching knowledge gap:', error);
+    return apiError('Failed to fetch knowledge gap', 500);
+  }
+}
+
+// PUT /api/admin/knowledge-gaps/[id] - Reassign, resolve or dismiss a knowledge gap (admin only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const gap = await prisma.knowledgeGap.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!gap) {
+      return apiError('Knowledge gap not found', 404);
+    }
+
+    const body = await req.json();
+    const validatedData = updateGapSchema.parse(body);
+    const status = validatedData.status ?? gap.status;
+    const assignedToId = validatedData.assignedToId ?? gap.assignedToId;
+
+    const assignee = assignedToId ? await prisma.user.findUnique({ where: { id: assignedToId } }) : null;
+    if (status === 'ASSIGNED' && (!assignee || !assignee.isActive || assignee.role !== UserRole.LIAISON)) {
+      return apiError('Knowledge gaps can only be assigned to an active RTW Liaison', 400);
+    }
+
+    if (validatedData.trainingDocumentId) {
+      const document = await prisma.trainingDocument.findUnique({
+        where: { id: validatedData.trainingDocumentId },
+      });
+      if (!document) {
+        return apiError('Training document not found', 404);
+      }
+    }
+
+    const updatedGap = await prisma.knowledgeGap.update({
+      where: { id: gap.id },
+      data: {
+        status,
+        assignedToId,
+        trainingDocumentId: validatedData.trainingDocumentId,
+        note: validatedData.note,
+        resolvedAt: status === 'RESOLVED' ? gap.resolvedAt ?? new Date() : null,
+      },
+    });
+
+    // Tell the liaison when the gap is newly theirs
+    const reassigned = status === 'ASSIGNED' && (assignedToId !== gap.assignedToId || gap.status !== 'ASSIGNED');
+    if (reassigned && assignee) {
+      const questions = await findGapQuestions(gap.id);
+      const emailContent = knowledgeGapAssignedEmail({
+        recipientName: assignee.fullName,
+        assignerName: session.user.name || 'An administrator',
+        title: updatedGap.title,
+        note: updatedGap.note || undefined,
+        questions: questions.map((item) => item.question),
+      });
+
+      await sendEmail({
+        to: assignee.email,
+        subject: emailContent.subject,
+        html: emailContent.html,
+        text: emailContent.text,
+      });
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action:
+          status === 'RESOLVED' && gap.status !== 'RESOLVED'
+            ? 'RESOLVE_KNOWLEDGE_GAP'
+            : status === 'DISMISSED' && gap.status !== 'DISMISSED'
+              ? 'DISMISS_KNOWLEDGE_GAP'
+              : 'UPDATE_KNOWLEDGE_GAP',
+        entityType: 'KNOWLEDGE_GAP',
+        entityId: gap.id,
+        metadata: {
+          status,
+          assignedToId,
+          trainingDocumentId: updatedGap.trainingDocumentId,
+        },
+      },
+    });
+
+    return apiResponse(updatedGap);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error updating knowledge gap:', error);
+    return apiError('Failed to update knowledge gap', 500);
+  }
+}
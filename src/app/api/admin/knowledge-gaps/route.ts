@@ -0,0 +1,167 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { sendEmail, knowledgeGapAssignedEmail } from '@/lib/email';
+import {
+  clusterGapQuestions,
+  createKnowledgeGap,
+  findGapQuestions,
+  findUnassignedGapQuestions,
+  MAX_REPORT_QUESTIONS,
+} from '@/lib/knowledge-gaps';
+import { z } from 'zod';
+import { KnowledgeGapStatus, UserRole } from '@prisma/client';
+
+const createGapSchema = z
+  .object({
+    messageIds: z.array(z.string().uuid()).min(1).max(500),
+    title: z.string().trim().min(5, 'Title must be at least 5 characters').max(200),
+    note: z.string().trim().max(2000).optional(),
+    assignedToId: z.string().uuid().optional(),
+    dismiss: z.boolean().default(false),
+  })
+  .refine((data) => data.dismiss || data.assignedToId, {
+    message: 'Choose a liaison to assign the gap to',
+  });
+
+const gapQuerySchema = z.object({
+  status: z.union([z.nativeEnum(KnowledgeGapStatus), z.literal('ALL')]).default(KnowledgeGapStatus.ASSIGNED),
+});
+
+// GET /api/admin/knowledge-gaps - Clusters of unanswered chatbot questions and recorded gaps (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const days = Math.min(365, Math.max(1, parseInt(searchParams.get('days') || '90')));
+    const { status } = gapQuerySchema.parse({
+      status: searchParams.get('status') || undefined,
+    });
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const answerWhere = { role: 'ASSISTANT' as const, createdAt: { gte: since } };
+
+    const [questions, answered, lowConfidence, byReason, retrieval, gaps, liaisons] = await Promise.all([
+      findUnassignedGapQuestions(since),
+      prisma.chatbotMessage.count({ where: answerWhere }),
+      prisma.chatbotMessage.count({ where: { ...answerWhere, lowConfidenceReason: { not: null } } }),
+      prisma.chatbotMessage.groupBy({
+        by: ['lowConfidenceReason'],
+        where: { ...answerWhere, lowConfidenceReason: { not: null } },
+        _count: true,
+      }),
+      prisma.chatbotMessage.aggregate({
+        where: { ...answerWhere, retrievalHits: { not: null } },
+        _avg: { retrievalHits: true },
+      }),
+      prisma.knowledgeGap.findMany({
+        where: status === 'ALL' ? {} : { status },
+        include: {
+          assignedTo: { select: { id: true, fullName: true } },
+          createdBy: { select: { id: true, fullName: true } },
+          trainingDocument: { select: { id: true, title: true } },
+          _count: { select: { messages: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      }),
+      prisma.user.findMany({
+        where: { role: UserRole.LIAISON, isActive: true },
+        select: { id: true, fullName: true, department: true },
+        orderBy: { fullName: 'asc' },
+      }),
+    ]);
+
+    const clusters = await clusterGapQuestions(questions);
+
+    return apiResponse({
+      summary: {
+        days,
+        answered,
+        lowConfidence,
+        lowConfidenceRate: answered > 0 ? lowConfidence / answered : null,
+        byReason: Object.fromEntries(byReason.map((row) => [row.lowConfidenceReason, row._count])),
+        averageRetrievalHits: retrieval._avg.retrievalHits,
+        clusteredQuestions: questions.length,
+        questionLimit: MAX_REPORT_QUESTIONS,
+      },
+      clusters,
+      gaps,
+      liaisons,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error building knowledge gap report:', error);
+    return apiError('Failed to build knowledge gap report', 500);
+  }
+}
+
+// POST /api/admin/knowledge-gaps - Assign a cluster of questions to a liaison, or dismiss it (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const body = await req.json();
+    const validatedData = createGapSchema.parse(body);
+
+    const gap = await createKnowledgeGap({ ...validatedData, createdById: session.user.id });
+
+    if (gap.assignedTo) {
+      const questions = await findGapQuestions(gap.id);
+
+      const emailContent = knowledgeGapAssignedEmail({
+        recipientName: gap.assignedTo.fullName,
+        assignerName: session.user.name || 'An administrator',
+        title: gap.title,
+        note: gap.note || undefined,
+        questions: questions.map((item) => item.question),
+      });
+
+      await sendEmail({
+        to: gap.assignedTo.email,
+        subject: emailContent.subject,
+        html: emailContent.html,
+        text: emailContent.text,
+      });
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: validatedData.dismiss ? 'DISMISS_KNOWLEDGE_GAP' : 'ASSIGN_KNOWLEDGE_GAP',
+        entityType: 'KNOWLEDGE_GAP',
+        entityId: gap.id,
+        metadata: {
+          title: gap.title,
+          assignedToId: gap.assignedToId,
+          questions: gap._count.messages,
+        },
+      },
+    });
+
+    return apiResponse(gap, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return apiError(error.message, error.statusCode);
+    }
+    console.error('Error creating knowledge gap:', error);
+    return apiError('Failed to create knowledge gap', 500);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { publishPromptVersion } from '@/lib/prompt-templates';
+import { PromptTemplateStatus, UserRole } from '@prisma/client';
+
+// POST /api/admin/prompts/[id]/publish - Make a prompt version live; publishing an archived version rolls back to it (admin only)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const existing = await prisma.promptTemplate.findUnique({
+      where: { id: params.id },
+      select: { status: true },
+    });
+
+    if (!existing) {
+      return apiError('Prompt version not found', 404);
+    }
+
+    const { template, previous } = await publishPromptVersion(params.id, session.user.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: existing.status === PromptTemplateStatus.ARCHIVED ? 'ROLLBACK_PROMPT_VERSION' : 'PUBLISH_PROMPT_VERSION',
+        entityType: 'PROMPT_TEMPLATE',
+        entityId: template.id,
+        metadata: {
+          name: template.name,
+          version: template.version,
+          previousVersion: previous?.version ?? null,
+        },
+      },
+    });
+
+    return apiResponse(template);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return apiError(error.message, 404);
+    }
+    if (error instanceof ValidationError) {
+      return apiError(error.message, 400);
+    }
+    console.error('Error publishing prompt version:', error);
+    return apiError('Failed to publish prompt version', 500);
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { ValidationError } from '@/lib/errors';
+import { validatePromptTemplate } from '@/lib/prompt-templates';
+import { z } from 'zod';
+import { PromptTemplateStatus, UserRole } from '@prisma/client';
+
+const updateDraftSchema = z.object({
+  body: z.string().trim().min(50, 'Prompt must be at least 50 characters').max(20000).optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+// PUT /api/admin/prompts/[id] - Edit a draft prompt version (admin only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const existing = await prisma.promptTemplate.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return apiError('Prompt version not found', 404);
+    }
+
+    // Published versions are kept as they were so answers can be traced to them
+    if (existing.status !== PromptTemplateStatus.DRAFT) {
+      return apiError('Only drafts can be edited. Save a new draft instead.', 400);
+    }
+
+    const body = await req.json();
+    const validatedData = updateDraftSchema.parse(body);
+
+    if (validatedData.body) {
+      validatePromptTemplate(validatedData.body);
+    }
+
+    const template = await prisma.promptTemplate.update({
+      where: { id: params.id },
+      data: validatedData,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'UPDATE_PROMPT_VERSION',
+        entityType: 'PROMPT_TEMPLATE',
+        entityId: template.id,
+        metadata: { version: template.version, fields: Object.keys(validatedData) },
+      },
+    });
+
+    return apiResponse(template);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    if (error instanceof ValidationError) {
+      return apiError(error.message, 400);
+    }
+    console.error('Error updating prompt version:', error);
+    return apiError('Failed to update prompt version', 500);
+  }
+}
+
+// DELETE /api/admin/prompts/[id] - Delete a draft prompt version (admin only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const existing = await prisma.promptTemplate.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return apiError('Prompt version not found', 404);
+    }
+
+    if (existing.status !== PromptTemplateStatus.DRAFT) {
+      return apiError('Only drafts can be deleted', 400);
+    }
+
+    await prisma.promptTemplate.delete({
+      where: { id: params.id },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'DELETE_PROMPT_VERSION',
+        entityType: 'PROMPT_TEMPLATE',
+        entityId: params.id,
+        metadata: { name: existing.name, version: existing.version },
+      },
+    });
+
+    return apiResponse({ message: 'Draft deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting prompt version:', error);
+    return apiError('Failed to delete prompt version', 500);
+  }
+}
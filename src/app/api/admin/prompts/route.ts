@@ -0,0 +1,103 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { ValidationError } from '@/lib/errors';
+import {
+  CHATBOT_SYSTEM_PROMPT,
+  DEFAULT_CHATBOT_PROMPT,
+  PROMPT_VARIABLES,
+  createPromptDraft,
+  getPromptVersionStats,
+} from '@/lib/prompt-templates';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+const createDraftSchema = z.object({
+  body: z.string().trim().min(50, 'Prompt must be at least 50 characters').max(20000),
+  note: z.string().trim().max(500).optional(),
+});
+
+// GET /api/admin/prompts - List versions of the chatbot system prompt with answer stats (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const [versions, stats] = await Promise.all([
+      prisma.promptTemplate.findMany({
+        where: { name: CHATBOT_SYSTEM_PROMPT },
+        include: {
+          createdBy: { select: { id: true, fullName: true } },
+          publishedBy: { select: { id: true, fullName: true } },
+        },
+        orderBy: { version: 'desc' },
+      }),
+      getPromptVersionStats(),
+    ]);
+
+    const statsFor = (id: string | null) =>
+      stats.find((item) => item.promptTemplateId === id) ?? {
+        promptTemplateId: id,
+        answers: 0,
+        lowConfidence: 0,
+        helpful: 0,
+        notHelpful: 0,
+      };
+
+    return apiResponse({
+      versions: versions.map((version) => ({ ...version, stats: statsFor(version.id) })),
+      // Used until a version is published, and for answers from before versioning
+      builtIn: { body: DEFAULT_CHATBOT_PROMPT, stats: statsFor(null) },
+      variables: PROMPT_VARIABLES,
+    });
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error);
+    return apiError('Failed to fetch prompt versions', 500);
+  }
+}
+
+// POST /api/admin/prompts - Save a new draft version of the chatbot system prompt (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const body = await req.json();
+    const validatedData = createDraftSchema.parse(body);
+
+    const template = await createPromptDraft({
+      ...validatedData,
+      createdById: session.user.id,
+    });
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'CREATE_PROMPT_VERSION',
+        entityType: 'PROMPT_TEMPLATE',
+        entityId: template.id,
+        metadata: { name: template.name, version: template.version, note: template.note },
+      },
+    });
+
+    return apiResponse(template, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    if (error instanceof ValidationError) {
+      return apiError(error.message, 400);
+    }
+    console.error('Error creating prompt version:', error);
+    return apiError('Failed to create prompt version', 500);
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { z } from 'zod';
+import { Prisma, RedactionType, UserRole } from '@prisma/client';
+
+const redactionQuerySchema = z.object({
+  entityType: z.nativeEnum(RedactionType).optional(),
+});
+
+// GET /api/admin/redactions - What was redacted from chatbot messages, for compliance review (admin only)
+// Original values are never returned; the stored message shows where each placeholder was used
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const { entityType } = redactionQuerySchema.parse({
+      entityType: searchParams.get('entityType') || undefined,
+    });
+    const conversationId = searchParams.get('conversationId');
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ChatbotMessageWhereInput = {
+      redactions: {
+        some: entityType ? { entityType } : {},
+      },
+    };
+
+    if (conversationId) {
+      where.conversationId = conversationId;
+    }
+
+    const [messages, total] = await Promise.all([
+      prisma.chatbotMessage.findMany({
+        where,
+        select: {
+          id: true,
+          conversationId: true,
+          content: true,
+          createdAt: true,
+          conversation: {
+            select: {
+              user: {
+                select: {
+                  id: true,
+                  fullName: true,
+                  department: true,
+                },
+              },
+            },
+          },
+          redactions: {
+            select: { entityType: true, placeholder: true },
+            orderBy: { placeholder: 'asc' },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.chatbotMessage.count({ where }),
+    ]);
+
+    return apiResponse({
+      messages: messages.map(({ conversation, ...message }) => ({
+        ...message,
+        user: conversation.user,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error fetching redactions:', error);
+    return apiError('Failed to fetch redactions', 500);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { purgeExpiredConversations } from '@/lib/retention';
+import { UserRole } from '@prisma/client';
+
+// GET /api/admin/retention - Dry run: conversations the retention policy would purge now (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const report = await purgeExpiredConversations({ dryRun: true });
+
+    return apiResponse(report);
+  } catch (error) {
+    console.error('Error building retention report:', error);
+    return apiError('Failed to build retention report', 500);
+  }
+}
+
+// POST /api/admin/retention - Purge expired conversations now instead of waiting for the scheduled job (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    // Each batch writes its own audit log entry
+    const report = await purgeExpiredConversations({ actorId: session.user.id });
+
+    return apiResponse(report);
+  } catch (error) {
+    console.error('Error purging chatbot conversations:', error);
+    return apiError('Failed to purge chatbot conversations', 500);
+  }
+}
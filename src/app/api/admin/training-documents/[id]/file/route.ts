@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiError } from '@/lib/middleware';
+import { UserRole } from '@prisma/client';
+
+// GET /api/admin/training-documents/[id]/file - Download the original uploaded file (admin only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const file = await prisma.trainingDocumentFile.findUnique({
+      where: { documentId: params.id },
+    });
+
+    if (!file) {
+      return apiError('File not found', 404);
+    }
+
+    const asciiName = file.fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+
+    return new Response(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Length': file.size.toString(),
+        'Content-Disposition': `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading training document file:', error);
+    return apiError('Failed to download file', 500);
+  }
+}
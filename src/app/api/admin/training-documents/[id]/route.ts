@@ -0,0 +1,174 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { trainingDocumentUpdateSchema } from '@/lib/validation';
+import { updateTrainingDocument } from '@/lib/knowledge-base';
+import { invalidateCachedAnswers } from '@/lib/answer-cache';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+// GET /api/admin/training-documents/[id] - Get a training document with its chunks (admin only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const document = await prisma.trainingDocument.findUnique({
+      where: { id: params.id },
+      include: {
+        uploadedBy: {
+          select: {
+            id: true,
+            fullName: true,
+          },
+        },
+        sourcePost: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+        file: {
+          select: {
+            fileName: true,
+            mimeType: true,
+            size: true,
+          },
+        },
+        chunks: {
+          select: {
+            id: true,
+            chunkIndex: true,
+            heading: true,
+            startOffset: true,
+            endOffset: true,
+            tokenCount: true,
+          },
+          orderBy: { chunkIndex: 'asc' },
+        },
+      },
+    });
+
+    if (!document) {
+      return apiError('Training document not found', 404);
+    }
+
+    return apiResponse(document);
+  } catch (error) {
+    console.error('Error fetching training document:', error);
+    return apiError('Failed to fetch training document', 500);
+  }
+}
+
+// PUT /api/admin/training-documents/[id] - Edit, activate or deactivate a training document (admin only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const existing = await prisma.trainingDocument.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return apiError('Training document not found', 404);
+    }
+
+    const body = await req.json();
+    const validatedData = trainingDocumentUpdateSchema.parse(body);
+
+    const document = await updateTrainingDocument(params.id, validatedData);
+
+    const { isActive, ...edits } = validatedData;
+    const edited = Object.keys(edits).length > 0;
+    const statusChanged = isActive !== undefined && isActive !== existing.isActive;
+
+    if (edited || statusChanged) {
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: edited
+            ? 'UPDATE_TRAINING_DOCUMENT'
+            : isActive
+              ? 'ACTIVATE_TRAINING_DOCUMENT'
+              : 'DEACTIVATE_TRAINING_DOCUMENT',
+          entityType: 'TRAINING_DOCUMENT',
+          entityId: document.id,
+          metadata: {
+            title: document.title,
+            fields: Object.keys(validatedData),
+            ...((edits.visibleToRoles || edits.visibleToDepartments) && {
+              visibleToRoles: document.visibleToRoles,
+              visibleToDepartments: document.visibleToDepartments,
+            }),
+            ...(statusChanged && { isActive }),
+          },
+        },
+      });
+    }
+
+    return apiResponse(document);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error updating training document:', error);
+    return apiError('Failed to update training document', 500);
+  }
+}
+
+// DELETE /api/admin/training-documents/[id] - Delete a training document (admin only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const document = await prisma.trainingDocument.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!document) {
+      return apiError('Training document not found', 404);
+    }
+
+    await prisma.trainingDocument.delete({
+      where: { id: params.id },
+    });
+    await invalidateCachedAnswers([params.id]);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'DELETE_TRAINING_DOCUMENT',
+        entityType: 'TRAINING_DOCUMENT',
+        entityId: params.id,
+        metadata: { title: document.title, documentType: document.documentType },
+      },
+    });
+
+    return apiResponse({ success: true });
+  } catch (error) {
+    console.error('Error deleting training document:', error);
+    return apiError('Failed to delete training document', 500);
+  }
+}
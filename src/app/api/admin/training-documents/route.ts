@@ -0,0 +1,173 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { trainingDocumentCreateSchema } from '@/lib/validation';
+import { createTrainingDocument, fullTextSearchTrainingDocuments } from '@/lib/knowledge-base';
+import { visibilityTier } from '@/lib/document-visibility';
+import { z } from 'zod';
+import { DocumentType, Prisma, UserRole } from '@prisma/client';
+
+const PREVIEW_LENGTH = 300;
+
+const documentQuerySchema = z.object({
+  documentType: z.nativeEnum(DocumentType).optional(),
+});
+
+// GET /api/admin/training-documents - List and search training documents (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const { documentType } = documentQuerySchema.parse({
+      documentType: searchParams.get('documentType') || undefined,
+    });
+    const isActive = searchParams.get('isActive');
+    const q = searchParams.get('q')?.trim();
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.TrainingDocumentWhereInput = {};
+
+    if (documentType) {
+      where.documentType = documentType;
+    }
+
+    if (isActive === 'true' || isActive === 'false') {
+      where.isActive = isActive === 'true';
+    }
+
+    // Full-text matches are ranked in the database, then filtered and paged here
+    const matches = q ? await fullTextSearchTrainingDocuments(q) : null;
+    if (matches) {
+      where.id = { in: matches.map((match) => match.id) };
+    }
+
+    const select = {
+      id: true,
+      title: true,
+      content: true,
+      documentType: true,
+      isActive: true,
+      visibleToRoles: true,
+      visibleToDepartments: true,
+      createdAt: true,
+      uploadedBy: {
+        select: {
+          id: true,
+          fullName: true,
+        },
+      },
+      sourcePost: {
+        select: {
+          id: true,
+          title: true,
+        },
+      },
+      file: {
+        select: {
+          fileName: true,
+          size: true,
+        },
+      },
+      _count: {
+        select: { chunks: true },
+      },
+    } satisfies Prisma.TrainingDocumentSelect;
+
+    let documents;
+    let total;
+
+    if (matches) {
+      const matching = await prisma.trainingDocument.findMany({ where, select });
+      const byId = new Map(matching.map((doc) => [doc.id, doc]));
+      const ranked = matches.filter((match) => byId.has(match.id));
+      total = ranked.length;
+      documents = ranked.slice(skip, skip + limit).map((match) => ({
+        ...byId.get(match.id)!,
+        headline: match.headline,
+      }));
+    } else {
+      [documents, total] = await Promise.all([
+        prisma.trainingDocument.findMany({
+          where,
+          select,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit,
+        }),
+        prisma.trainingDocument.count({ where }),
+      ]);
+    }
+
+    return apiResponse({
+      documents: documents.map(({ content, ...doc }) => ({
+        ...doc,
+        visibilityTier: visibilityTier(doc),
+        preview: content.slice(0, PREVIEW_LENGTH),
+        contentLength: content.length,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error fetching training documents:', error);
+    return apiError('Failed to fetch training documents', 500);
+  }
+}
+
+// POST /api/admin/training-documents - Create and index a training document (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const body = await req.json();
+    const validatedData = trainingDocumentCreateSchema.parse(body);
+
+    const document = await createTrainingDocument({
+      ...validatedData,
+      uploadedById: session.user.id,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'CREATE_TRAINING_DOCUMENT',
+        entityType: 'TRAINING_DOCUMENT',
+        entityId: document.id,
+        metadata: {
+          title: document.title,
+          documentType: document.documentType,
+          visibleToRoles: document.visibleToRoles,
+          visibleToDepartments: document.visibleToDepartments,
+        },
+      },
+    });
+
+    return apiResponse(document, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error creating training document:', error);
+    return apiError('Failed to create training document', 500);
+  }
+}
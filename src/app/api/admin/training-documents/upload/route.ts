@@ -0,0 +1,167 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { rateLimiters } from '@/lib/rate-limit';
+import { RateLimitError, ValidationError } from '@/lib/errors';
+import { extractUploadedFile } from '@/lib/document-extraction';
+import { createTrainingDocument } from '@/lib/knowledge-base';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+const MAX_FILES_PER_UPLOAD = 20;
+
+const uploadSchema = z.object({
+  documentType: z.enum(['COMPLIANCE', 'QA', 'JOB_DESC', 'BRIDGE'], {
+    errorMap: () => ({ message: 'Invalid document type' }),
+  }),
+  // Only used when a single file is uploaded; otherwise titles come from file names
+  title: z.string().trim().min(3).max(200).optional(),
+  visibleToRoles: z
+    .array(z.enum(['MEMBER', 'LIAISON', 'LEGAL', 'ADMIN'], { errorMap: () => ({ message: 'Invalid role' }) }))
+    .default([]),
+  visibleToDepartments: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+});
+
+interface UploadResult {
+  fileName: string;
+  status: 'created' | 'failed';
+  documentId?: string;
+  title?: string;
+  error?: string;
+}
+
+function titleFromFileName(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 200);
+}
+
+// POST /api/admin/training-documents/upload - Create training documents from PDF, DOCX or TXT files (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    rateLimiters.upload(session.user.id);
+
+    const formData = await req.formData();
+    const files = formData.getAll('files').filter((entry): entry is File => entry instanceof File);
+    const { documentType, title, visibleToRoles, visibleToDepartments } = uploadSchema.parse({
+      documentType: formData.get('documentType'),
+      title: formData.get('title') || undefined,
+      visibleToRoles: formData.getAll('visibleToRoles'),
+      // Comma-separated list
+      visibleToDepartments: String(formData.get('visibleToDepartments') || '')
+        .split(',')
+        .map((department) => department.trim())
+        .filter(Boolean),
+    });
+
+    if (files.length === 0) {
+      return apiError('No files uploaded', 400);
+    }
+
+    if (files.length > MAX_FILES_PER_UPLOAD) {
+      return apiError(`Upload at most ${MAX_FILES_PER_UPLOAD} files at a time`, 400);
+    }
+
+    // Files are processed one at a time so a bad file doesn't fail the batch
+    const results: UploadResult[] = [];
+
+    for (const file of files) {
+      try {
+        const extracted = await extractUploadedFile(file);
+
+        const duplicate = await prisma.trainingDocumentFile.findFirst({
+          where: { sha256: extracted.sha256 },
+          include: { document: { select: { title: true } } },
+        });
+
+        if (duplicate) {
+          throw new ValidationError(`Already uploaded as "${duplicate.document.title}"`);
+        }
+
+        const documentTitle = (files.length === 1 && title) || titleFromFileName(file.name) || file.name;
+
+        const document = await createTrainingDocument({
+          title: documentTitle,
+          content: extracted.text,
+          documentType,
+          visibleToRoles,
+          visibleToDepartments,
+          uploadedById: session.user.id,
+          file: {
+            create: {
+              fileName: extracted.fileName,
+              mimeType: extracted.mimeType,
+              size: extracted.size,
+              sha256: extracted.sha256,
+              data: extracted.data,
+            },
+          },
+        });
+
+        await prisma.auditLog.create({
+          data: {
+            userId: session.user.id,
+            action: 'UPLOAD_TRAINING_DOCUMENT',
+            entityType: 'TRAINING_DOCUMENT',
+            entityId: document.id,
+            metadata: {
+              title: document.title,
+              documentType,
+              visibleToRoles,
+              visibleToDepartments,
+              fileName: extracted.fileName,
+              size: extracted.size,
+            },
+          },
+        });
+
+        results.push({
+          fileName: file.name,
+          status: 'created',
+          documentId: document.id,
+          title: document.title,
+        });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          console.error(`Error ingesting uploaded file ${file.name}:`, error);
+        }
+        results.push({
+          fileName: file.name,
+          status: 'failed',
+          error: error instanceof ValidationError ? error.message : 'Failed to process file',
+        });
+      }
+    }
+
+    const created = results.filter((result) => result.status === 'created').length;
+
+    return apiResponse(
+      {
+        results,
+        created,
+        failed: results.length - created,
+      },
+      created > 0 ? 201 : 422
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    if (error instanceof RateLimitError) {
+      return apiError(error.message, 429);
+    }
+    console.error('Error uploading training documents:', error);
+    return apiError('Failed to upload training documents', 500);
+  }
+}
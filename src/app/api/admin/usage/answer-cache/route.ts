@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { clearAnswerCache, getAnswerCacheStats } from '@/lib/answer-cache';
+import { UserRole } from '@prisma/client';
+
+// GET /api/admin/usage/answer-cache - Answer cache hit rate by day and most reused answers (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const days = Math.min(365, Math.max(1, parseInt(searchParams.get('days') || '30')));
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const stats = await getAnswerCacheStats(since);
+
+    return apiResponse({ days, ...stats });
+  } catch (error) {
+    console.error('Error fetching answer cache stats:', error);
+    return apiError('Failed to fetch answer cache stats', 500);
+  }
+}
+
+// DELETE /api/admin/usage/answer-cache - Clear every cached answer (admin only)
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const cleared = await clearAnswerCache();
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'CLEAR_ANSWER_CACHE',
+        entityType: 'ANSWER_CACHE',
+        metadata: { cleared },
+      },
+    });
+
+    return apiResponse({ cleared });
+  } catch (error) {
+    console.error('Error clearing answer cache:', error);
+    return apiError('Failed to clear answer cache', 500);
+  }
+}
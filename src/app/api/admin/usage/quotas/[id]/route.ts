@@ -0,0 +1,132 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+const updateQuotaSchema = z.object({
+  role: z.nativeEnum(UserRole).nullable().optional(),
+  department: z
+    .string()
+    .trim()
+    .max(100)
+    .nullable()
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value || null)),
+  dailyTokenLimit: z.number().int().positive().nullable().optional(),
+  monthlyTokenLimit: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// PUT /api/admin/usage/quotas/[id] - Update a chatbot usage quota (admin only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const existing = await prisma.usageQuota.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return apiError('Usage quota not found', 404);
+    }
+
+    const body = await req.json();
+    const validatedData = updateQuotaSchema.parse(body);
+    const merged = { ...existing, ...validatedData };
+
+    if (!merged.role && !merged.department) {
+      return apiError('Choose a role or department for the quota', 400);
+    }
+    if (!merged.dailyTokenLimit && !merged.monthlyTokenLimit) {
+      return apiError('Set a daily or monthly token limit', 400);
+    }
+
+    const quota = await prisma.usageQuota.update({
+      where: { id: params.id },
+      data: validatedData,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'UPDATE_USAGE_QUOTA',
+        entityType: 'USAGE_QUOTA',
+        entityId: quota.id,
+        metadata: {
+          before: {
+            role: existing.role,
+            department: existing.department,
+            dailyTokenLimit: existing.dailyTokenLimit,
+            monthlyTokenLimit: existing.monthlyTokenLimit,
+            isActive: existing.isActive,
+          },
+          changes: validatedData,
+        },
+      },
+    });
+
+    return apiResponse(quota);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error updating usage quota:', error);
+    return apiError('Failed to update usage quota', 500);
+  }
+}
+
+// DELETE /api/admin/usage/quotas/[id] - Delete a chatbot usage quota (admin only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const existing = await prisma.usageQuota.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return apiError('Usage quota not found', 404);
+    }
+
+    await prisma.usageQuota.delete({
+      where: { id: params.id },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'DELETE_USAGE_QUOTA',
+        entityType: 'USAGE_QUOTA',
+        entityId: params.id,
+        metadata: {
+          role: existing.role,
+          department: existing.department,
+          dailyTokenLimit: existing.dailyTokenLimit,
+          monthlyTokenLimit: existing.monthlyTokenLimit,
+        },
+      },
+    });
+
+    return apiResponse({ message: 'Usage quota deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting usage quota:', error);
+    return apiError('Failed to delete usage quota', 500);
+  }
+}
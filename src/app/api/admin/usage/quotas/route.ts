@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+const quotaSchema = z
+  .object({
+    role: z.nativeEnum(UserRole).nullable().default(null),
+    department: z.string().trim().max(100).nullable().default(null).transform((value) => value || null),
+    dailyTokenLimit: z.number().int().positive().nullable().default(null),
+    monthlyTokenLimit: z.number().int().positive().nullable().default(null),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.role || data.department, {
+    message: 'Choose a role or department for the quota',
+  })
+  .refine((data) => data.dailyTokenLimit || data.monthlyTokenLimit, {
+    message: 'Set a daily or monthly token limit',
+  });
+
+// GET /api/admin/usage/quotas - List chatbot usage quotas (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const quotas = await prisma.usageQuota.findMany({
+      orderBy: [{ department: 'asc' }, { role: 'asc' }],
+    });
+
+    return apiResponse(quotas);
+  } catch (error) {
+    console.error('Error fetching usage quotas:', error);
+    return apiError('Failed to fetch usage quotas', 500);
+  }
+}
+
+// POST /api/admin/usage/quotas - Create a chatbot usage quota (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const body = await req.json();
+    const validatedData = quotaSchema.parse(body);
+
+    const quota = await prisma.usageQuota.create({
+      data: validatedData,
+    });
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'CREATE_USAGE_QUOTA',
+        entityType: 'USAGE_QUOTA',
+        entityId: quota.id,
+        metadata: validatedData,
+      },
+    });
+
+    return apiResponse(quota, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error creating usage quota:', error);
+    return apiError('Failed to create usage quota', 500);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { getUsageReport } from '@/lib/usage';
+import { UserRole } from '@prisma/client';
+
+// GET /api/admin/usage - Chatbot token usage and cost by day, department and user (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || session.user.role !== UserRole.ADMIN) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const days = Math.min(365, Math.max(1, parseInt(searchParams.get('days') || '30')));
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [report, quotas] = await Promise.all([
+      getUsageReport(since),
+      prisma.usageQuota.findMany({
+        orderBy: [{ department: 'asc' }, { role: 'asc' }],
+      }),
+    ]);
+
+    return apiResponse({ days, ...report, quotas });
+  } catch (error) {
+    console.error('Error fetching chatbot usage:', error);
+    return apiError('Failed to fetch usage', 500);
+  }
+}
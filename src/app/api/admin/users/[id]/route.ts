@@ -73,6 +73,18 @@ export async function DELETE(
       return apiError('Cannot delete your own account', 400);
     }
 
+    // Deleting a user deletes their chatbot conversations, which a legal hold forbids
+    const heldConversations = await prisma.chatbotConversation.count({
+      where: { userId: params.id, legalHoldAt: { not: null } },
+    });
+
+    if (heldConversations > 0) {
+      return apiError(
+        `This user has ${heldConversations} chatbot conversation(s) on legal hold. Deactivate the account instead, or release the holds first.`,
+        409
+      );
+    }
+
     await prisma.user.delete({
       where: { id: params.id },
     });
@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiError } from '@/lib/middleware';
+import {
+  canExportConversation,
+  conversationToHtml,
+  conversationToMarkdown,
+  exportFileName,
+  loadConversationExport,
+} from '@/lib/conversation-export';
+import { z } from 'zod';
+
+const exportQuerySchema = z.object({
+  format: z.enum(['markdown', 'html']).default('markdown'),
+  redacted: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+});
+
+// GET /api/chatbot/conversations/[id]/export - Download a transcript as Markdown or printable HTML
+// Available to the member, and to liaisons, counsel and admins once the conversation is escalated
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const { format, redacted } = exportQuerySchema.parse({
+      format: searchParams.get('format') || undefined,
+      redacted: searchParams.get('redacted') || undefined,
+    });
+
+    const conversation = await prisma.chatbotConversation.findUnique({
+      where: { id: params.id },
+      select: { id: true, userId: true },
+    });
+
+    if (!conversation || !(await canExportConversation(session.user, conversation))) {
+      return apiError('Conversation not found', 404);
+    }
+
+    const data = await loadConversationExport(conversation.id, { redacted });
+    if (!data) {
+      return apiError('Conversation not found', 404);
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'EXPORT_CHATBOT_CONVERSATION',
+        entityType: 'CHATBOT_CONVERSATION',
+        entityId: conversation.id,
+        metadata: { format, redacted, ownerId: conversation.userId },
+      },
+    });
+
+    // HTML opens in the browser so it can be printed or saved as PDF
+    const [body, contentType, disposition] =
+      format === 'html'
+        ? [conversationToHtml(data), 'text/html; charset=utf-8', 'inline']
+        : [conversationToMarkdown(data), 'text/markdown; charset=utf-8', 'attachment'];
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `${disposition}; filename="${exportFileName(data.title, format === 'html' ? 'html' : 'md')}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error exporting conversation:', error);
+    return apiError('Failed to export conversation', 500);
+  }
+}
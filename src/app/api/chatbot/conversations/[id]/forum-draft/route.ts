@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { getUserConversation } from '@/lib/chatbot';
+import { buildForumDraft, loadConversationExport } from '@/lib/conversation-export';
+
+// GET /api/chatbot/conversations/[id]/forum-draft - Prefill a forum post from a conversation
+// Personal and medical details stay as placeholders unless ?redacted=false
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const conversation = await getUserConversation(session.user.id, params.id);
+    if (!conversation) {
+      return apiError('Conversation not found', 404);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const redacted = searchParams.get('redacted') !== 'false';
+
+    const data = await loadConversationExport(conversation.id, { redacted });
+    if (!data || !data.messages.some((message) => message.role === 'USER')) {
+      return apiError('This conversation has no messages to share', 400);
+    }
+
+    return apiResponse({ ...buildForumDraft(data), redacted });
+  } catch (error) {
+    console.error('Error building forum draft:', error);
+    return apiError('Failed to build forum draft', 500);
+  }
+}
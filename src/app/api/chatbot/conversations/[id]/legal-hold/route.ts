@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+const legalHoldSchema = z.discriminatedUnion('hold', [
+  z.object({ hold: z.literal(true), reason: z.string().trim().min(1, 'A reason is required').max(500) }),
+  z.object({ hold: z.literal(false) }),
+]);
+
+// PUT /api/chatbot/conversations/[id]/legal-hold - Place or release a legal hold (legal counsel and admins)
+// Conversations on hold are exempt from the retention purge
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user || (session.user.role !== UserRole.LEGAL && session.user.role !== UserRole.ADMIN)) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const body = await req.json();
+    const data = legalHoldSchema.parse(body);
+
+    const conversation = await prisma.chatbotConversation.findUnique({
+      where: { id: params.id },
+      select: { id: true, userId: true, anonymizedAt: true },
+    });
+
+    if (!conversation) {
+      return apiError('Conversation not found', 404);
+    }
+    if (data.hold && conversation.anonymizedAt) {
+      return apiError('This conversation was already anonymized under the retention policy', 400);
+    }
+
+    const updated = await prisma.chatbotConversation.update({
+      where: { id: conversation.id },
+      data: data.hold
+        ? { legalHoldAt: new Date(), legalHoldReason: data.reason }
+        : { legalHoldAt: null, legalHoldReason: null },
+      select: { id: true, legalHoldAt: true, legalHoldReason: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: data.hold ? 'PLACE_LEGAL_HOLD' : 'RELEASE_LEGAL_HOLD',
+        entityType: 'CHATBOT_CONVERSATION',
+        entityId: conversation.id,
+        metadata: { ownerId: conversation.userId, ...(data.hold && { reason: data.reason }) },
+      },
+    });
+
+    return apiResponse({ conversation: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error updating legal hold:', error);
+    return apiError('Failed to update legal hold', 500);
+  }
+}
@@ -0,0 +1,188 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { getUserConversation } from '@/lib/chatbot';
+import { loadRedactionVault, restoreText } from '@/lib/redaction';
+import { z } from 'zod';
+
+const updateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(100),
+});
+
+const LEGAL_HOLD_MESSAGE = 'This conversation is on legal hold and cannot be deleted';
+
+// What the member gets back; legal hold details are only shown to legal counsel and admins
+const memberConversationSelect = {
+  id: true,
+  title: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ChatbotConversationSelect;
+
+// GET /api/chatbot/conversations/[id] - Get a conversation with a page of messages
+// Without `before` the most recent messages are returned; `before` is the id of
+// the oldest message already loaded. Messages within a page are oldest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const conversation = await prisma.chatbotConversation.findFirst({
+      where: { id: params.id, userId: session.user.id },
+      select: memberConversationSelect,
+    });
+    if (!conversation) {
+      return apiError('Conversation not found', 404);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const before = searchParams.get('before');
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50')));
+
+    // Keyset on (createdAt, id) so messages added while paging don't shift the window
+    let cursorCondition: Prisma.ChatbotMessageWhereInput = {};
+    if (before) {
+      const cursor = await prisma.chatbotMessage.findFirst({
+        where: { id: before, conversationId: params.id },
+        select: { id: true, createdAt: true },
+      });
+      if (!cursor) {
+        return apiError('Message not found', 404);
+      }
+      cursorCondition = {
+        OR: [
+          { createdAt: { lt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+        ],
+      };
+    }
+
+    const rows = await prisma.chatbotMessage.findMany({
+      where: { conversationId: params.id, ...cursorCondition },
+      include: {
+        feedback: {
+          select: { rating: true, reasons: true, comment: true },
+        },
+        escalations: {
+          select: { id: true, escalationType: true, status: true },
+        },
+        redactions: {
+          select: { entityType: true, placeholder: true },
+        },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    });
+    const hasMore = rows.length > limit;
+    const messages = rows.slice(0, limit);
+
+    // Messages are stored redacted; the member sees their own details restored
+    const vault = await loadRedactionVault(params.id);
+
+    return apiResponse({
+      conversation,
+      messages: messages.reverse().map((message) => ({
+        ...message,
+        content: restoreText(message.content, vault),
+        suggestedQuestions: message.suggestedQuestions.map((question) => restoreText(question, vault)),
+      })),
+      pagination: {
+        limit,
+        hasMore,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return apiError('Failed to fetch conversation', 500);
+  }
+}
+
+// PUT /api/chatbot/conversations/[id] - Rename a conversation
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const conversation = await getUserConversation(session.user.id, params.id);
+    if (!conversation) {
+      return apiError('Conversation not found', 404);
+    }
+
+    const body = await req.json();
+    const validatedData = updateConversationSchema.parse(body);
+
+    const updatedConversation = await prisma.chatbotConversation.update({
+      where: { id: params.id },
+      data: { title: validatedData.title },
+      select: memberConversationSelect,
+    });
+
+    return apiResponse(updatedConversation);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error updating conversation:', error);
+    return apiError('Failed to update conversation', 500);
+  }
+}
+
+// DELETE /api/chatbot/conversations/[id] - Delete a conversation and its messages
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const conversation = await getUserConversation(session.user.id, params.id);
+    if (!conversation) {
+      return apiError('Conversation not found', 404);
+    }
+
+    // Held conversations must be kept, even from their owner; the hold is
+    // checked again in the delete in case it was placed in the meantime
+    if (conversation.legalHoldAt) {
+      return apiError(LEGAL_HOLD_MESSAGE, 409);
+    }
+
+    const { count } = await prisma.chatbotConversation.deleteMany({
+      where: { id: params.id, legalHoldAt: null },
+    });
+
+    if (count === 0) {
+      return apiError(LEGAL_HOLD_MESSAGE, 409);
+    }
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'DELETE_CHATBOT_CONVERSATION',
+        entityType: 'CHATBOT_CONVERSATION',
+        entityId: params.id,
+      },
+    });
+
+    return apiResponse({ success: true });
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return apiError('Failed to delete conversation', 500);
+  }
+}
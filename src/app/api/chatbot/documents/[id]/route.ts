@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { canViewDocument, getDocumentViewer } from '@/lib/document-visibility';
+
+// GET /api/chatbot/documents/[id] - View a training document cited by the chatbot
+// Pass ?chunk= to get the offsets of the cited passage
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const document = await prisma.trainingDocument.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        documentType: true,
+        isActive: true,
+        visibleToRoles: true,
+        visibleToDepartments: true,
+        sourcePostId: true,
+        createdAt: true,
+      },
+    });
+
+    // Restricted documents look the same as missing ones
+    const viewer = await getDocumentViewer(session.user.id);
+    if (!document || !document.isActive || !canViewDocument(viewer, document)) {
+      return apiError('Document not found', 404);
+    }
+
+    const chunkId = new URL(req.url).searchParams.get('chunk');
+    // Chunks are replaced when a document is re-indexed, so older citations may not match
+    const chunk = chunkId
+      ? await prisma.trainingDocumentChunk.findFirst({
+          where: { id: chunkId, documentId: document.id },
+          select: { id: true, heading: true, startOffset: true, endOffset: true },
+        })
+      : null;
+
+    return apiResponse({
+      id: document.id,
+      title: document.title,
+      content: document.content,
+      documentType: document.documentType,
+      sourcePostId: document.sourcePostId,
+      createdAt: document.createdAt,
+      chunk,
+    });
+  } catch (error) {
+    console.error('Error fetching cited document:', error);
+    return apiError('Failed to fetch document', 500);
+  }
+}
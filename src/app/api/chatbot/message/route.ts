@@ -4,16 +4,150 @@ import { authOptions } from '@/lib/auth';
 import { apiResponse, apiError, rateLimit } from '@/lib/middleware';
 import {
   createConversation,
+  getUserConversation,
   generateChatbotResponse,
+  streamChatbotResponse,
   saveMessages,
 } from '@/lib/chatbot';
+import { getLlmProvider } from '@/lib/llm';
+import { titleConversation } from '@/lib/conversation-titles';
+import { encodeSseEvent } from '@/lib/sse';
+import { summarizeRedactions } from '@/lib/redaction';
+import { enforceUsageQuota, recordLlmUsage, UsageMeter } from '@/lib/usage';
+import { QuotaExceededError } from '@/lib/errors';
 import { z } from 'zod';
 
 const messageSchema = z.object({
   conversationId: z.string().uuid().optional(),
   message: z.string().min(1).max(2000),
+  stream: z.boolean().optional(),
 });
 
+/**
+ * Stream the answer as Server-Sent Events:
+ * conversation -> sources -> (tool | token)* -> done -> title? (or error)
+ * `tool` is sent as the model starts a lookup, so the chat can show it's working.
+ * Messages are persisted once the answer completes; cancelled answers are discarded,
+ * but the tokens they used are still recorded.
+ * `done` carries the final answer with its citations validated, which replaces
+ * the streamed text, the suggested follow-up questions and whether the answer
+ * came from the answer cache. `title` follows when the first exchange gave the
+ * conversation its title.
+ */
+function streamChatbotMessage(
+  req: NextRequest,
+  userId: string,
+  conversationId: string,
+  message: string
+) {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  req.signal.addEventListener('abort', () => abortController.abort());
+  const meter = new UsageMeter();
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+
+      let messageId: string | undefined;
+
+      try {
+        send('conversation', { conversationId });
+
+        const stream = streamChatbotResponse(
+          userId,
+          conversationId,
+          message,
+          abortController.signal,
+          meter
+        );
+
+        let next = await stream.next();
+        while (!next.done) {
+          const event = next.value;
+          if (event.type === 'sources') {
+            send('sources', { sources: event.sources });
+          } else if (event.type === 'tool') {
+            send('tool', { name: event.name, label: event.label });
+          } else {
+            send('token', { text: event.text });
+          }
+          next = await stream.next();
+        }
+
+        const {
+          response,
+          displayResponse,
+          sources,
+          citations,
+          invalidCitations,
+          searchQuery,
+          promptTemplateId,
+          redaction,
+          suggestedQuestions,
+          displaySuggestedQuestions,
+          toolCalls,
+          toolRedactions,
+          cacheStatus,
+        } = next.value;
+        const { userMessage, assistantMessage } = await saveMessages(conversationId, redaction.text, response, {
+          sources,
+          citations,
+          invalidCitations,
+          searchQuery,
+          promptTemplateId,
+          redactions: redaction.redactions,
+          suggestedQuestions,
+          toolCalls,
+          toolRedactions,
+          cacheStatus,
+        });
+        messageId = assistantMessage.id;
+
+        send('done', {
+          conversationId,
+          messageId: assistantMessage.id,
+          userMessageId: userMessage.id,
+          message: displayResponse,
+          citations,
+          suggestedQuestions: displaySuggestedQuestions,
+          cacheStatus,
+          redactions: summarizeRedactions(redaction.redactions),
+        });
+
+        const title = await titleConversation(conversationId, redaction.text, response, meter.wrap(getLlmProvider()));
+        if (title) {
+          send('title', { conversationId, title });
+        }
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('Error streaming chatbot message:', error);
+          send('error', { error: 'Failed to process message' });
+        }
+      } finally {
+        await recordLlmUsage(userId, meter.entries, { conversationId, messageId });
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed by the client
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
 // POST /api/chatbot/message - Send message to chatbot
 export async function POST(req: NextRequest) {
   try {
@@ -31,38 +165,88 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const validatedData = messageSchema.parse(body);
 
+    // Daily and monthly token quotas for the user's role or department
+    await enforceUsageQuota(session.user.id);
+
     let conversationId = validatedData.conversationId;
 
     // Create new conversation if not provided
     if (!conversationId) {
       const conversation = await createConversation(session.user.id);
       conversationId = conversation.id;
+    } else if (!(await getUserConversation(session.user.id, conversationId))) {
+      return apiError('Conversation not found', 404);
     }
 
-    // Generate AI response
-    const { response, sources } = await generateChatbotResponse(
-      session.user.id,
-      conversationId,
-      validatedData.message
-    );
-
-    // Save messages to database
-    await saveMessages(
-      conversationId,
-      validatedData.message,
-      response,
-      sources
-    );
-
-    return apiResponse({
-      conversationId,
-      message: response,
-      sources,
-    });
+    if (validatedData.stream) {
+      return streamChatbotMessage(
+        req,
+        session.user.id,
+        conversationId,
+        validatedData.message
+      );
+    }
+
+    const meter = new UsageMeter();
+    let messageId: string | undefined;
+
+    try {
+      // Generate AI response
+      const {
+        response,
+        displayResponse,
+        sources,
+        citations,
+        invalidCitations,
+        searchQuery,
+        promptTemplateId,
+        redaction,
+        suggestedQuestions,
+        displaySuggestedQuestions,
+        toolCalls,
+        toolRedactions,
+        cacheStatus,
+      } = await generateChatbotResponse(session.user.id, conversationId, validatedData.message, meter);
+
+      // Save messages to database
+      const { userMessage, assistantMessage } = await saveMessages(conversationId, redaction.text, response, {
+        sources,
+        citations,
+        invalidCitations,
+        searchQuery,
+        promptTemplateId,
+        redactions: redaction.redactions,
+        suggestedQuestions,
+        toolCalls,
+        toolRedactions,
+        cacheStatus,
+      });
+      messageId = assistantMessage.id;
+
+      const title = await titleConversation(conversationId, redaction.text, response, meter.wrap(getLlmProvider()));
+
+      return apiResponse({
+        conversationId,
+        messageId: assistantMessage.id,
+        userMessageId: userMessage.id,
+        message: displayResponse,
+        sources,
+        citations,
+        suggestedQuestions: displaySuggestedQuestions,
+        cacheStatus,
+        redactions: summarizeRedactions(redaction.redactions),
+        ...(title && { title }),
+      });
+    } finally {
+      await recordLlmUsage(session.user.id, meter.entries, { conversationId, messageId });
+    }
   } catch (error) {
     if (error instanceof z.ZodError) {
       return apiError(error.errors[0].message, 400);
     }
+    if (error instanceof QuotaExceededError) {
+      return apiError(error.message, error.statusCode);
+    }
     console.error('Error processing chatbot message:', error);
     return apiError('Failed to process message', 500);
   }
@@ -0,0 +1,139 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { sendEmail, escalationNotificationEmail } from '@/lib/email';
+import {
+  buildEscalationContext,
+  formatEscalationDescription,
+  formatEscalationEmailSummary,
+  recommendEscalationType,
+} from '@/lib/chatbot-escalation';
+import { z } from 'zod';
+import { EscalationType, EscalationPriority, UserRole } from '@prisma/client';
+
+const escalateMessageSchema = z.object({
+  // Defaults to the type recommended in the answer
+  escalationType: z.enum(['LIAISON', 'LEGAL']).optional(),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
+  note: z.string().trim().max(2000).optional(),
+});
+
+// POST /api/chatbot/messages/[id]/escalate - Escalate a chatbot answer with its transcript
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const message = await prisma.chatbotMessage.findUnique({
+      where: { id: params.id },
+      include: {
+        conversation: { select: { userId: true } },
+        escalations: { select: { id: true } },
+      },
+    });
+
+    if (!message || message.conversation.userId !== session.user.id || message.role !== 'ASSISTANT') {
+      return apiError('Message not found', 404);
+    }
+
+    if (message.escalations.length > 0) {
+      return apiError('This answer has already been escalated', 409);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const validatedData = escalateMessageSchema.parse(body);
+
+    const escalationType = (validatedData.escalationType ||
+      recommendEscalationType(message.content).escalationType) as EscalationType;
+
+    const context = await buildEscalationContext(message.conversationId, message);
+    const description = formatEscalationDescription(context, validatedData.note);
+
+    // Find appropriate assignee based on type
+    const assignedTo = await prisma.user.findFirst({
+      where: {
+        role: escalationType === EscalationType.LEGAL ? UserRole.LEGAL : UserRole.LIAISON,
+        isActive: true,
+      },
+    });
+
+    const escalation = await prisma.escalation.create({
+      data: {
+        requesterId: session.user.id,
+        escalationType,
+        priority: validatedData.priority as EscalationPriority,
+        description,
+        assignedToId: assignedTo?.id,
+        chatbotConversationId: message.conversationId,
+        chatbotMessageId: message.id,
+        chatbotContext: JSON.parse(JSON.stringify(context)),
+      },
+      include: {
+        requester: {
+          select: {
+            id: true,
+            fullName: true,
+            email: true,
+          },
+        },
+        assignedTo: {
+          select: {
+            id: true,
+            fullName: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    // Send email notification to assigned person
+    if (assignedTo) {
+      const emailContent = escalationNotificationEmail({
+        recipientName: assignedTo.fullName,
+        requesterName: escalation.requester.fullName,
+        escalationType,
+        priority: validatedData.priority,
+        description: formatEscalationEmailSummary(context, validatedData.note),
+        escalationUrl: `${process.env.NEXT_PUBLIC_APP_URL}/escalations/${escalation.id}`,
+      });
+
+      await sendEmail({
+        to: assignedTo.email,
+        subject: emailContent.subject,
+        html: emailContent.html,
+        text: emailContent.text,
+      });
+    }
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'CREATE_ESCALATION',
+        entityType: 'ESCALATION',
+        entityId: escalation.id,
+        metadata: {
+          type: escalationType,
+          priority: validatedData.priority,
+          chatbotConversationId: message.conversationId,
+          chatbotMessageId: message.id,
+        },
+      },
+    });
+
+    return apiResponse(escalation, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error escalating chatbot message:', error);
+    return apiError('Failed to escalate message', 500);
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { apiResponse, apiError } from '@/lib/middleware';
+import { FeedbackStatus } from '@prisma/client';
+import { z } from 'zod';
+
+const feedbackSchema = z.object({
+  rating: z.enum(['HELPFUL', 'NOT_HELPFUL']),
+  reasons: z
+    .array(z.enum(['WRONG', 'OUTDATED', 'INCOMPLETE', 'SHOULD_HAVE_ESCALATED', 'IRRELEVANT_SOURCES', 'OTHER']))
+    .default([]),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+/**
+ * Find an assistant message in one of the user's conversations
+ */
+async function getOwnAssistantMessage(userId: string, messageId: string) {
+  const message = await prisma.chatbotMessage.findUnique({
+    where: { id: messageId },
+    include: { conversation: { select: { userId: true } } },
+  });
+
+  if (!message || message.conversation.userId !== userId || message.role !== 'ASSISTANT') {
+    return null;
+  }
+
+  return message;
+}
+
+// PUT /api/chatbot/messages/[id]/feedback - Rate an assistant answer
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const message = await getOwnAssistantMessage(session.user.id, params.id);
+    if (!message) {
+      return apiError('Message not found', 404);
+    }
+
+    const body = await req.json();
+    const { rating, reasons, comment } = feedbackSchema.parse(body);
+
+    // Reason codes only describe what was wrong with an answer
+    const data = {
+      rating,
+      reasons: rating === 'NOT_HELPFUL' ? reasons : [],
+      comment: comment || null,
+    };
+
+    // A changed verdict is new feedback, so a previous review no longer applies
+    const existing = await prisma.chatbotMessageFeedback.findUnique({
+      where: { messageId: message.id },
+      select: { rating: true, reasons: true },
+    });
+    const verdictChanged =
+      !!existing &&
+      (existing.rating !== data.rating ||
+        existing.reasons.length !== data.reasons.length ||
+        existing.reasons.some((reason) => !data.reasons.includes(reason)));
+
+    const feedback = await prisma.chatbotMessageFeedback.upsert({
+      where: { messageId: message.id },
+      create: {
+        ...data,
+        messageId: message.id,
+        userId: session.user.id,
+      },
+      update: verdictChanged
+        ? {
+            ...data,
+            status: FeedbackStatus.PENDING,
+            reviewedById: null,
+            reviewedAt: null,
+            reviewNote: null,
+          }
+        : data,
+    });
+
+    return apiResponse({ feedback });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return apiError(error.errors[0].message, 400);
+    }
+    console.error('Error saving feedback:', error);
+    return apiError('Failed to save feedback', 500);
+  }
+}
+
+// DELETE /api/chatbot/messages/[id]/feedback - Remove feedback from an answer
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const message = await getOwnAssistantMessage(session.user.id, params.id);
+    if (!message) {
+      return apiError('Message not found', 404);
+    }
+
+    await prisma.chatbotMessageFeedback.deleteMany({
+      where: { messageId: message.id },
+    });
+
+    return apiResponse({ message: 'Feedback removed' });
+  } catch (error) {
+    console.error('Error removing feedback:', error);
+    return apiError('Failed to remove feedback', 500);
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { apiResponse, apiError } from '@/lib/middleware';
+import { syncForumPostTrainingDocument } from '@/lib/forum-training';
 import { z } from 'zod';
 import { EscalationStatus } from '@prisma/client';
 
@@ -49,6 +50,12 @@ export async function GET(
             content: true,
           },
         },
+        chatbotConversation: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
       },
     });
 
@@ -109,6 +116,22 @@ export async function PUT(
       },
     });
 
+    // A resolution on an approved post belongs in its training document
+    if (escalation.postId && updateData.resolution) {
+      const post = await prisma.post.findUnique({
+        where: { id: escalation.postId },
+        select: { approvedForTraining: true },
+      });
+
+      if (post?.approvedForTraining) {
+        try {
+          await syncForumPostTrainingDocument(escalation.postId, session.user.id);
+        } catch (error) {
+          console.error('Error syncing post training document:', error);
+        }
+      }
+    }
+
     return apiResponse(escalation);
   } catch (error) {
     console.error('Error updating escalation:', error);
@@ -54,6 +54,9 @@ export async function GET(req: NextRequest) {
       where.status = status;
     }
 
+    // Legal counsel and admins can place conversations on legal hold from here
+    const canHold = session.user.role === UserRole.LEGAL || session.user.role === UserRole.ADMIN;
+
     const [escalations, total] = await Promise.all([
       prisma.escalation.findMany({
         where,
@@ -78,6 +81,16 @@ export async function GET(req: NextRequest) {
               title: true,
             },
           },
+          ...(canHold && {
+            chatbotConversation: {
+              select: {
+                id: true,
+                legalHoldAt: true,
+                legalHoldReason: true,
+                anonymizedAt: true,
+              },
+            },
+          }),
         },
         orderBy: [
           { priority: 'desc' },
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { apiResponse, apiError } from '@/lib/middleware';
+import { deactivateForumPostTrainingDocuments, syncForumPostTrainingDocument } from '@/lib/forum-training';
 import { z } from 'zod';
 import { UserRole } from '@prisma/client';
 
@@ -129,6 +130,19 @@ export async function PUT(
       },
     });
 
+    // Keep the FORUM_POST training document in step with approval and edits
+    const trainingChanged =
+      validatedData.approvedForTraining !== undefined ||
+      (updatedPost.approvedForTraining && (validatedData.title || validatedData.content));
+
+    if (trainingChanged) {
+      try {
+        await syncForumPostTrainingDocument(params.id, session.user.id);
+      } catch (error) {
+        console.error('Error syncing post training document:', error);
+      }
+    }
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
@@ -177,6 +191,9 @@ export async function DELETE(
       return apiError('Forbidden', 403);
     }
 
+    // Deactivate first: deleting the post clears the document's sourcePostId
+    await deactivateForumPostTrainingDocuments(params.id);
+
     await prisma.post.delete({
       where: { id: params.id },
     });
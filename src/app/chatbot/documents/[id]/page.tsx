@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import Navbar from '@/components/Navbar';
+
+interface CitedDocument {
+  id: string;
+  title: string;
+  content: string;
+  documentType: string;
+  sourcePostId: string | null;
+  createdAt: string;
+  chunk: {
+    id: string;
+    heading: string | null;
+    startOffset: number;
+    endOffset: number;
+  } | null;
+}
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  COMPLIANCE: 'Compliance',
+  QA: 'Q&A',
+  JOB_DESC: 'Job Description',
+  BRIDGE: 'Bridge Assignment',
+  FORUM_POST: 'Forum Post',
+};
+
+export default function CitedDocumentPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const chunkId = searchParams.get('chunk');
+  const [document, setDocument] = useState<CitedDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const citedRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    if (params.id) {
+      fetchDocument();
+    }
+  }, [params.id, chunkId]);
+
+  useEffect(() => {
+    citedRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [document]);
+
+  async function fetchDocument() {
+    try {
+      const query = chunkId ? `?chunk=${encodeURIComponent(chunkId)}` : '';
+      const res = await fetch(`/api/chatbot/documents/${params.id}${query}`);
+      if (res.ok) {
+        setDocument(await res.json());
+      } else if (res.status === 404) {
+        setError('This document is not available');
+      } else {
+        setError('Failed to load document');
+      }
+    } catch (err) {
+      setError('An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-4xl mx-auto py-12 text-center">
+          <div className="text-gray-500">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !document) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-4xl mx-auto py-12 text-center">
+          <div className="text-red-600">{error || 'This document is not available'}</div>
+          <Link href="/chatbot" className="mt-4 text-blue-600 hover:text-blue-500">
+            ← Back to chatbot
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { chunk, content } = document;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-4xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0">
+          <nav className="flex mb-4" aria-label="Breadcrumb">
+            <ol className="flex items-center space-x-2 text-sm">
+              <li>
+                <Link href="/chatbot" className="text-gray-500 hover:text-gray-700">
+                  Chatbot
+                </Link>
+              </li>
+              <li>
+                <span className="text-gray-400">/</span>
+              </li>
+              <li className="text-gray-700">Cited document</li>
+            </ol>
+          </nav>
+
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-5 border-b border-gray-200">
+              <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                {DOCUMENT_TYPE_LABELS[document.documentType] || document.documentType}
+              </span>
+              <h1 className="mt-2 text-2xl font-bold text-gray-900">{document.title}</h1>
+              {chunk?.heading && (
+                <p className="mt-1 text-sm text-gray-500">Cited section: {chunk.heading}</p>
+              )}
+              {chunkId && !chunk && (
+                <p className="mt-1 text-sm text-gray-500">
+                  This document has been updated since it was cited, so the cited passage can&apos;t be highlighted.
+                </p>
+              )}
+            </div>
+
+            <div className="px-6 py-5 whitespace-pre-wrap text-sm text-gray-800">
+              {chunk ? (
+                <>
+                  {content.slice(0, chunk.startOffset)}
+                  <mark ref={citedRef} className="bg-yellow-100">
+                    {content.slice(chunk.startOffset, chunk.endOffset)}
+                  </mark>
+                  {content.slice(chunk.endOffset)}
+                </>
+              ) : (
+                content
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
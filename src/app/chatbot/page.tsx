@@ -2,63 +2,413 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useSession } from 'next-auth/react';
+import Link from 'next/link';
 import Navbar from '@/components/Navbar';
+import { parseSseEvents } from '@/lib/sse';
+import { Citation, citationHref, splitCitations } from '@/lib/citations';
+
+interface MessageFeedback {
+  rating: 'HELPFUL' | 'NOT_HELPFUL';
+  reasons: string[];
+  comment: string | null;
+}
+
+interface MessageEscalation {
+  id: string;
+  escalationType: 'LIAISON' | 'LEGAL';
+  status: string;
+}
+
+interface MessageRedaction {
+  entityType: string;
+  placeholder: string;
+}
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   sources?: any[];
+  citations?: Citation[];
   createdAt: string;
+  streaming?: boolean;
+  lookup?: string; // Lookup the model is running while streaming
+  cancelled?: boolean;
+  feedback?: MessageFeedback | null;
+  escalation?: MessageEscalation | null;
+  redactions?: MessageRedaction[];
+  suggestedQuestions?: string[];
+  cacheStatus?: 'HIT' | 'MISS' | null;
 }
 
 interface Conversation {
   id: string;
   title: string;
   createdAt: string;
+  updatedAt: string;
+}
+
+interface ApiMessage {
+  id: string;
+  role: 'USER' | 'ASSISTANT';
+  content: string;
+  sources: any[] | null;
+  citations: Citation[] | null;
+  createdAt: string;
+  feedback: MessageFeedback | null;
+  escalations: MessageEscalation[];
+  redactions: MessageRedaction[];
+}
+
+const FEEDBACK_REASONS = [
+  { value: 'WRONG', label: 'Wrong' },
+  { value: 'OUTDATED', label: 'Outdated' },
+  { value: 'INCOMPLETE', label: 'Incomplete' },
+  { value: 'SHOULD_HAVE_ESCALATED', label: 'Should have escalated' },
+  { value: 'IRRELEVANT_SOURCES', label: 'Irrelevant sources' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+function toMessage(message: ApiMessage): Message {
+  return {
+    id: message.id,
+    role: message.role === 'USER' ? 'user' : 'assistant',
+    content: message.content,
+    sources: message.sources ?? undefined,
+    citations: message.citations ?? undefined,
+    createdAt: message.createdAt,
+    feedback: message.feedback,
+    escalation: message.escalations?.[0] ?? null,
+    redactions: message.redactions,
+  };
+}
+
+/**
+ * Link for a cited source number: the validated citation when the answer has
+ * been checked, otherwise the retrieved source in that position
+ */
+function sourceHref(message: Message, number: number): string | null {
+  const citation = message.citations?.find((c) => c.number === number);
+  if (citation) return citation.href;
+  const source = message.sources?.[number - 1];
+  return source?.documentId ? citationHref(source) : null;
+}
+
+/**
+ * Answer text with [Source n] markers rendered as footnote links
+ */
+function AnswerText({ message }: { message: Message }) {
+  return (
+    <div className="whitespace-pre-wrap">
+      {splitCitations(message.content).map((segment, idx) =>
+        segment.type === 'text' ? (
+          <span key={idx}>{segment.text}</span>
+        ) : (
+          <sup key={idx} className="ml-0.5">
+            {segment.numbers.map((number) => {
+              const href = sourceHref(message, number);
+              return href ? (
+                <a
+                  key={number}
+                  href={href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={message.sources?.[number - 1]?.title}
+                  className="text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  [{number}]
+                </a>
+              ) : (
+                <span key={number}>[{number}]</span>
+              );
+            })}
+          </sup>
+        )
+      )}
+    </div>
+  );
+}
+
+const REDACTION_LABELS: Record<string, string> = {
+  PERSON: 'names',
+  SSN: 'SSNs',
+  CLAIM_NUMBER: 'claim numbers',
+  DATE_OF_BIRTH: 'dates of birth',
+  PHONE: 'phone numbers',
+  EMAIL: 'email addresses',
+  MEDICAL: 'medical details',
+};
+
+function describeRedactions(redactions: MessageRedaction[]): string {
+  const types = Array.from(new Set(redactions.map((r) => r.entityType)));
+  return types.map((type) => REDACTION_LABELS[type] || type.toLowerCase()).join(', ');
 }
 
 export default function ChatbotPage() {
   const { data: session } = useSession();
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationsPage, setConversationsPage] = useState(1);
+  const [hasMoreConversations, setHasMoreConversations] = useState(false);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+  const [editingConversationId, setEditingConversationId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
+  const [hasEarlierMessages, setHasEarlierMessages] = useState(false);
+  const [feedbackFormId, setFeedbackFormId] = useState<string | null>(null);
+  const [feedbackReasons, setFeedbackReasons] = useState<string[]>([]);
+  const [feedbackComment, setFeedbackComment] = useState('');
   const [inputMessage, setInputMessage] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const skipScrollRef = useRef(false);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
+    // Don't jump to the bottom when earlier messages are prepended
+    if (skipScrollRef.current) {
+      skipScrollRef.current = false;
+      return;
+    }
     scrollToBottom();
   }, [messages]);
 
+  useEffect(() => {
+    fetchConversations(1);
+  }, []);
+
+  async function fetchConversations(page: number) {
+    try {
+      const res = await fetch(`/api/chatbot/conversations?page=${page}&limit=20`);
+      if (res.ok) {
+        const data = await res.json();
+        setConversations((prev) => (page === 1 ? data.conversations : [...prev, ...data.conversations]));
+        setConversationsPage(page);
+        setHasMoreConversations(page < data.pagination.totalPages);
+      }
+    } catch (err) {
+      console.error('Error fetching conversations:', err);
+    }
+  }
+
+  async function fetchMessages(conversationId: string, before?: string) {
+    const query = before ? `?before=${encodeURIComponent(before)}` : '';
+    const res = await fetch(`/api/chatbot/conversations/${conversationId}${query}`);
+    if (!res.ok) {
+      const data = await res.json();
+      throw new Error(data.error || 'Failed to load conversation');
+    }
+    const data = await res.json();
+    return {
+      messages: (data.messages as ApiMessage[]).map(toMessage),
+      hasMore: data.pagination.hasMore as boolean,
+    };
+  }
+
   async function handleNewConversation() {
+    abortControllerRef.current?.abort();
     setCurrentConversationId(null);
     setMessages([]);
+    setHasEarlierMessages(false);
+    setError('');
+  }
+
+  async function handleSelectConversation(conversationId: string) {
+    if (conversationId === currentConversationId) return;
+    abortControllerRef.current?.abort();
     setError('');
+
+    try {
+      const result = await fetchMessages(conversationId);
+      setCurrentConversationId(conversationId);
+      setMessages(result.messages);
+      setHasEarlierMessages(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversation');
+    }
+  }
+
+  async function handleLoadEarlierMessages() {
+    if (!currentConversationId || messages.length === 0) return;
+
+    try {
+      const result = await fetchMessages(currentConversationId, messages[0].id);
+      skipScrollRef.current = true;
+      setMessages((prev) => [...result.messages, ...prev]);
+      setHasEarlierMessages(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load messages');
+    }
+  }
+
+  async function handleRenameConversation(conversationId: string) {
+    const title = editingTitle.trim();
+    setEditingConversationId(null);
+    if (!title) return;
+
+    try {
+      const res = await fetch(`/api/chatbot/conversations/${conversationId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title }),
+      });
+
+      if (res.ok) {
+        setConversations((prev) =>
+          prev.map((c) => (c.id === conversationId ? { ...c, title } : c))
+        );
+      } else {
+        const data = await res.json();
+        setError(data.error || 'Failed to rename conversation');
+      }
+    } catch (err) {
+      setError('Failed to rename conversation');
+    }
+  }
+
+  async function handleDeleteConversation(conversationId: string) {
+    if (!confirm('Delete this conversation? This cannot be undone.')) return;
+
+    try {
+      const res = await fetch(`/api/chatbot/conversations/${conversationId}`, {
+        method: 'DELETE',
+      });
+
+      if (res.ok) {
+        setConversations((prev) => prev.filter((c) => c.id !== conversationId));
+        if (conversationId === currentConversationId) {
+          handleNewConversation();
+        }
+      } else {
+        const data = await res.json();
+        setError(data.error || 'Failed to delete conversation');
+      }
+    } catch (err) {
+      setError('Failed to delete conversation');
+    }
+  }
+
+  function updateMessage(id: string, update: (message: Message) => Message) {
+    setMessages((prev) => prev.map((m) => (m.id === id ? update(m) : m)));
+  }
+
+  function handleCancel() {
+    abortControllerRef.current?.abort();
+  }
+
+  async function submitFeedback(messageId: string, feedback: MessageFeedback | null) {
+    try {
+      const res = await fetch(`/api/chatbot/messages/${messageId}/feedback`, {
+        method: feedback ? 'PUT' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: feedback ? JSON.stringify({ ...feedback, comment: feedback.comment || undefined }) : undefined,
+      });
+
+      if (res.ok) {
+        updateMessage(messageId, (m) => ({ ...m, feedback }));
+        setFeedbackFormId(null);
+      } else {
+        const data = await res.json();
+        setError(data.error || 'Failed to save feedback');
+      }
+    } catch (err) {
+      setError('Failed to save feedback');
+    }
+  }
+
+  function handleRate(message: Message, rating: MessageFeedback['rating']) {
+    // Clicking the current rating again clears it
+    if (message.feedback?.rating === rating) {
+      submitFeedback(message.id, null);
+      return;
+    }
+
+    if (rating === 'HELPFUL') {
+      submitFeedback(message.id, { rating, reasons: [], comment: null });
+      return;
+    }
+
+    setFeedbackFormId(message.id);
+    setFeedbackReasons(message.feedback?.reasons ?? []);
+    setFeedbackComment(message.feedback?.comment ?? '');
+  }
+
+  async function handleEscalate(message: Message) {
+    if (!confirm('Escalate this answer? The conversation transcript and cited sources will be shared with the assigned RTW Liaison or Legal Counsel.')) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/chatbot/messages/${message.id}/escalate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        updateMessage(message.id, (m) => ({
+          ...m,
+          escalation: { id: data.id, escalationType: data.escalationType, status: data.status },
+        }));
+      } else {
+        setError(data.error || 'Failed to escalate');
+      }
+    } catch (err) {
+      setError('Failed to escalate');
+    }
+  }
+
+  function toggleFeedbackReason(reason: string) {
+    setFeedbackReasons((prev) =>
+      prev.includes(reason) ? prev.filter((r) => r !== reason) : [...prev, reason]
+    );
   }
 
   async function handleSendMessage(e: React.FormEvent) {
     e.preventDefault();
-    if (!inputMessage.trim()) return;
+    await sendMessage(inputMessage);
+  }
 
-    const userMessage = inputMessage;
+  async function sendMessage(text: string) {
+    if (!text.trim() || loading) return;
+
+    const userMessage = text;
     setInputMessage('');
     setError('');
     setLoading(true);
 
-    // Add user message to UI immediately
+    // Add user message and an empty assistant message to fill as tokens arrive
     const tempUserMessage: Message = {
       id: `temp-${Date.now()}`,
       role: 'user',
       content: userMessage,
       createdAt: new Date().toISOString(),
     };
-    setMessages((prev) => [...prev, tempUserMessage]);
+    let assistantId = `temp-assistant-${Date.now()}`;
+    const assistantPlaceholder: Message = {
+      id: assistantId,
+      role: 'assistant',
+      content: '',
+      createdAt: new Date().toISOString(),
+      streaming: true,
+    };
+    setMessages((prev) => [...prev, tempUserMessage, assistantPlaceholder]);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    // Set once the answer is saved; the stream stays open for the title after that
+    let completed = false;
 
     try {
       const res = await fetch('/api/chatbot/message', {
@@ -67,40 +417,95 @@ export default function ChatbotPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          conversationId: currentConversationId,
+          conversationId: currentConversationId || undefined,
           message: userMessage,
+          stream: true,
         }),
+        signal: abortController.signal,
       });
 
-      if (res.ok) {
+      if (!res.ok || !res.body) {
         const data = await res.json();
+        setError(data.error || 'Failed to send message');
+        // Remove the temporary messages
+        setMessages((prev) => prev.filter((m) => m.id !== tempUserMessage.id && m.id !== assistantId));
+        return;
+      }
 
-        // Update conversation ID if this was a new conversation
-        if (!currentConversationId) {
-          setCurrentConversationId(data.conversationId);
-        }
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
 
-        // Add assistant message
-        const assistantMessage: Message = {
-          id: data.messageId || `temp-${Date.now()}`,
-          role: 'assistant',
-          content: data.response,
-          sources: data.sources,
-          createdAt: new Date().toISOString(),
-        };
-        setMessages((prev) => [...prev, assistantMessage]);
-      } else {
-        const data = await res.json();
-        setError(data.error || 'Failed to send message');
-        // Remove the temporary user message
-        setMessages((prev) => prev.slice(0, -1));
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const { events, rest } = parseSseEvents(buffer);
+        buffer = rest;
+
+        for (const { event, data } of events) {
+          if (event === 'conversation') {
+            // Update conversation ID if this was a new conversation
+            setCurrentConversationId(data.conversationId);
+          } else if (event === 'sources') {
+            updateMessage(assistantId, (m) => ({ ...m, sources: data.sources }));
+          } else if (event === 'tool') {
+            updateMessage(assistantId, (m) => ({ ...m, lookup: data.label }));
+          } else if (event === 'token') {
+            updateMessage(assistantId, (m) => ({ ...m, content: m.content + data.text, lookup: undefined }));
+          } else if (event === 'done') {
+            const savedId: string = data.messageId;
+            updateMessage(tempUserMessage.id, (m) => ({
+              ...m,
+              id: data.userMessageId,
+              redactions: data.redactions,
+            }));
+            // The final text has its citations checked against the sources
+            updateMessage(assistantId, (m) => ({
+              ...m,
+              id: savedId,
+              content: data.message,
+              citations: data.citations,
+              suggestedQuestions: data.suggestedQuestions,
+              cacheStatus: data.cacheStatus,
+              streaming: false,
+            }));
+            assistantId = savedId;
+            // The answer is saved, so Stop no longer applies and the next question can be sent
+            completed = true;
+            abortControllerRef.current = null;
+            setLoading(false);
+            // Refresh the sidebar so new or updated conversations move to the top
+            fetchConversations(1);
+          } else if (event === 'title') {
+            // The first exchange named the conversation
+            fetchConversations(1);
+          } else if (event === 'error') {
+            setError(data.error || 'Failed to send message');
+            setMessages((prev) => prev.filter((m) => m.id !== tempUserMessage.id && m.id !== assistantId));
+          }
+        }
       }
     } catch (err) {
-      setError('An error occurred. Please try again.');
-      // Remove the temporary user message
-      setMessages((prev) => prev.slice(0, -1));
+      if (completed) {
+        // Only the title was still to come; the answer is already saved
+        return;
+      }
+      if (abortController.signal.aborted) {
+        // Keep what was received so far, but mark it as incomplete
+        updateMessage(assistantId, (m) => ({ ...m, streaming: false, cancelled: true }));
+      } else {
+        setError('An error occurred. Please try again.');
+        // Remove the temporary messages
+        setMessages((prev) => prev.filter((m) => m.id !== tempUserMessage.id && m.id !== assistantId));
+      }
     } finally {
-      setLoading(false);
+      // A later question may have started once this answer completed
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
     }
   }
 
@@ -111,7 +516,7 @@ export default function ChatbotPage() {
       <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 sm:px-0">
           <div className="flex h-[calc(100vh-8rem)]">
-            {/* Sidebar - Conversation History (simplified for now) */}
+            {/* Sidebar - Conversation History */}
             <div className="hidden md:flex md:flex-col w-64 bg-white border-r border-gray-200 rounded-l-lg shadow">
               <div className="p-4 border-b border-gray-200">
                 <button
@@ -132,19 +537,78 @@ export default function ChatbotPage() {
                   {conversations.length === 0 ? (
                     <p className="text-sm text-gray-500">No conversations yet</p>
                   ) : (
-                    conversations.map((conv) => (
-                      <button
-                        key={conv.id}
-                        onClick={() => setCurrentConversationId(conv.id)}
-                        className={`w-full text-left px-3 py-2 rounded-md text-sm ${
-                          currentConversationId === conv.id
-                            ? 'bg-blue-50 text-blue-700'
-                            : 'text-gray-700 hover:bg-gray-50'
-                        }`}
-                      >
-                        {conv.title}
-                      </button>
-                    ))
+                    conversations.map((conv) =>
+                      editingConversationId === conv.id ? (
+                        <form
+                          key={conv.id}
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            handleRenameConversation(conv.id);
+                          }}
+                        >
+                          <input
+                            type="text"
+                            autoFocus
+                            maxLength={100}
+                            value={editingTitle}
+                            onChange={(e) => setEditingTitle(e.target.value)}
+                            onBlur={() => handleRenameConversation(conv.id)}
+                            onKeyDown={(e) => e.key === 'Escape' && setEditingConversationId(null)}
+                            className="w-full px-3 py-2 border border-blue-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </form>
+                      ) : (
+                        <div
+                          key={conv.id}
+                          className={`group flex items-center rounded-md text-sm ${
+                            currentConversationId === conv.id
+                              ? 'bg-blue-50 text-blue-700'
+                              : 'text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          <button
+                            onClick={() => handleSelectConversation(conv.id)}
+                            className="flex-1 min-w-0 text-left px-3 py-2"
+                          >
+                            <span className="block truncate">{conv.title}</span>
+                            <span className="block text-xs text-gray-400">
+                              {new Date(conv.updatedAt).toLocaleDateString()}
+                            </span>
+                          </button>
+                          <div className="hidden group-hover:flex items-center pr-2 space-x-1">
+                            <button
+                              onClick={() => {
+                                setEditingConversationId(conv.id);
+                                setEditingTitle(conv.title);
+                              }}
+                              title="Rename"
+                              className="p-1 text-gray-400 hover:text-gray-700"
+                            >
+                              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z" />
+                              </svg>
+                            </button>
+                            <button
+                              onClick={() => handleDeleteConversation(conv.id)}
+                              title="Delete"
+                              className="p-1 text-gray-400 hover:text-red-600"
+                            >
+                              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            </button>
+                          </div>
+                        </div>
+                      )
+                    )
+                  )}
+                  {hasMoreConversations && (
+                    <button
+                      onClick={() => fetchConversations(conversationsPage + 1)}
+                      className="w-full text-center px-3 py-2 text-xs font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      Load more
+                    </button>
                   )}
                 </div>
               </div>
@@ -168,6 +632,33 @@ export default function ChatbotPage() {
                       Ask questions about RTW, ADA/FEHA compliance, and more
                     </p>
                   </div>
+                  {currentConversationId && !loading && (
+                    <div className="ml-auto flex items-center space-x-4 text-sm">
+                      <a
+                        href={`/api/chatbot/conversations/${currentConversationId}/export?format=markdown`}
+                        className="text-blue-100 hover:text-white"
+                        title="Download the transcript with its sources as Markdown"
+                      >
+                        Export
+                      </a>
+                      <a
+                        href={`/api/chatbot/conversations/${currentConversationId}/export?format=html`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-100 hover:text-white"
+                        title="Open a printable transcript; print it or save it as a PDF"
+                      >
+                        Print
+                      </a>
+                      <Link
+                        href={`/forum/new?fromConversation=${currentConversationId}`}
+                        className="text-blue-100 hover:text-white"
+                        title="Ask the community about this conversation"
+                      >
+                        Post to forum
+                      </Link>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -199,6 +690,16 @@ export default function ChatbotPage() {
                   </div>
                 ) : (
                   <>
+                    {hasEarlierMessages && (
+                      <div className="text-center">
+                        <button
+                          onClick={handleLoadEarlierMessages}
+                          className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          Load earlier messages
+                        </button>
+                      </div>
+                    )}
                     {messages.map((message) => (
                       <div
                         key={message.id}
@@ -211,36 +712,189 @@ export default function ChatbotPage() {
                               : 'bg-gray-100 text-gray-900'
                           }`}
                         >
-                          <div className="whitespace-pre-wrap">{message.content}</div>
+                          {message.streaming && !message.content ? (
+                            <div className="flex space-x-2 py-1">
+                              <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                              <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                              <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                            </div>
+                          ) : message.role === 'assistant' ? (
+                            <AnswerText message={message} />
+                          ) : (
+                            <div className="whitespace-pre-wrap">{message.content}</div>
+                          )}
+                          {message.streaming && message.lookup && (
+                            <p className="mt-2 text-xs italic text-gray-500">{message.lookup}...</p>
+                          )}
+                          {message.role === 'user' && message.redactions && message.redactions.length > 0 && (
+                            <p className="mt-2 text-xs text-blue-100" title="These details were replaced with placeholders before your question was sent to the AI model">
+                              Hidden from the AI: {describeRedactions(message.redactions)}
+                            </p>
+                          )}
+                          {message.cancelled && (
+                            <p className="mt-2 text-xs italic text-gray-500">
+                              Response cancelled. This answer is incomplete and was not saved.
+                            </p>
+                          )}
                           {message.sources && message.sources.length > 0 && (
                             <div className="mt-3 pt-3 border-t border-gray-300">
                               <p className="text-xs font-semibold mb-2">Sources:</p>
-                              <ul className="text-xs space-y-1">
-                                {message.sources.map((source, idx) => (
-                                  <li key={idx}>
-                                    • {source.title} ({source.type})
-                                  </li>
-                                ))}
-                              </ul>
+                              <ol className="text-xs space-y-1">
+                                {message.sources.map((source, idx) => {
+                                  const href = sourceHref(message, idx + 1);
+                                  const label = `${source.title}${source.section ? ` › ${source.section}` : ''}`;
+                                  return (
+                                    <li key={idx}>
+                                      [{idx + 1}]{' '}
+                                      {href ? (
+                                        <a
+                                          href={href}
+                                          target="_blank"
+                                          rel="noopener noreferrer"
+                                          className="text-blue-600 hover:text-blue-800 underline"
+                                        >
+                                          {label}
+                                        </a>
+                                      ) : (
+                                        label
+                                      )}{' '}
+                                      ({source.type})
+                                    </li>
+                                  );
+                                })}
+                              </ol>
                             </div>
                           )}
                           <div className={`text-xs mt-1 ${message.role === 'user' ? 'text-blue-100' : 'text-gray-500'}`}>
                             {new Date(message.createdAt).toLocaleTimeString()}
+                            {message.cacheStatus === 'HIT' && (
+                              <span title="This answer was given to an earlier, similar question and its sources haven't changed since">
+                                {' '}
+                                &middot; Cached answer
+                              </span>
+                            )}
                           </div>
+                          {message.role === 'assistant' &&
+                            !message.streaming &&
+                            !message.cancelled &&
+                            !message.id.startsWith('temp-') && (
+                              <div className="mt-2 flex items-center space-x-2">
+                                <button
+                                  onClick={() => handleRate(message, 'HELPFUL')}
+                                  title="Helpful"
+                                  className={`p-1 rounded ${
+                                    message.feedback?.rating === 'HELPFUL'
+                                      ? 'text-green-600 bg-green-50'
+                                      : 'text-gray-400 hover:text-gray-700'
+                                  }`}
+                                >
+                                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
+                                  </svg>
+                                </button>
+                                <button
+                                  onClick={() => handleRate(message, 'NOT_HELPFUL')}
+                                  title="Not helpful"
+                                  className={`p-1 rounded ${
+                                    message.feedback?.rating === 'NOT_HELPFUL'
+                                      ? 'text-red-600 bg-red-50'
+                                      : 'text-gray-400 hover:text-gray-700'
+                                  }`}
+                                >
+                                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" />
+                                  </svg>
+                                </button>
+                                {message.escalation ? (
+                                  <Link
+                                    href="/escalations"
+                                    className="text-xs text-blue-600 hover:text-blue-800"
+                                  >
+                                    Escalated to {message.escalation.escalationType === 'LEGAL' ? 'Legal Counsel' : 'RTW Liaison'} →
+                                  </Link>
+                                ) : (
+                                  <button
+                                    onClick={() => handleEscalate(message)}
+                                    className="text-xs font-medium text-gray-500 hover:text-gray-800"
+                                  >
+                                    Escalate this
+                                  </button>
+                                )}
+                              </div>
+                            )}
+                          {message.role === 'assistant' &&
+                            !message.streaming &&
+                            message.id === messages[messages.length - 1].id &&
+                            message.suggestedQuestions &&
+                            message.suggestedQuestions.length > 0 && (
+                              <div className="mt-3 flex flex-wrap gap-2">
+                                {message.suggestedQuestions.map((question) => (
+                                  <button
+                                    key={question}
+                                    type="button"
+                                    onClick={() => sendMessage(question)}
+                                    disabled={loading}
+                                    className="px-3 py-1 rounded-full text-xs text-left border border-blue-200 bg-white text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+                                  >
+                                    {question}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                          {feedbackFormId === message.id && (
+                            <div className="mt-2 pt-2 border-t border-gray-300 space-y-2">
+                              <p className="text-xs font-semibold">What was wrong with this answer?</p>
+                              <div className="flex flex-wrap gap-2">
+                                {FEEDBACK_REASONS.map((reason) => (
+                                  <button
+                                    key={reason.value}
+                                    type="button"
+                                    onClick={() => toggleFeedbackReason(reason.value)}
+                                    className={`px-2 py-1 rounded-full text-xs border ${
+                                      feedbackReasons.includes(reason.value)
+                                        ? 'bg-red-100 border-red-300 text-red-800'
+                                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                                    }`}
+                                  >
+                                    {reason.label}
+                                  </button>
+                                ))}
+                              </div>
+                              <textarea
+                                rows={2}
+                                maxLength={2000}
+                                value={feedbackComment}
+                                onChange={(e) => setFeedbackComment(e.target.value)}
+                                placeholder="Optional comment"
+                                className="w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              <div className="flex justify-end space-x-2">
+                                <button
+                                  type="button"
+                                  onClick={() => setFeedbackFormId(null)}
+                                  className="px-3 py-1 text-xs font-medium text-gray-700 hover:text-gray-900"
+                                >
+                                  Cancel
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    submitFeedback(message.id, {
+                                      rating: 'NOT_HELPFUL',
+                                      reasons: feedbackReasons,
+                                      comment: feedbackComment.trim() || null,
+                                    })
+                                  }
+                                  className="px-3 py-1 rounded text-xs font-medium text-white bg-blue-600 hover:bg-blue-700"
+                                >
+                                  Send feedback
+                                </button>
+                              </div>
+                            </div>
+                          )}
                         </div>
                       </div>
                     ))}
-                    {loading && (
-                      <div className="flex justify-start">
-                        <div className="max-w-3xl rounded-lg px-4 py-3 bg-gray-100">
-                          <div className="flex space-x-2">
-                            <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                            <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                            <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-                          </div>
-                        </div>
-                      </div>
-                    )}
                     <div ref={messagesEndRef} />
                   </>
                 )}
@@ -262,21 +916,25 @@ export default function ChatbotPage() {
                     className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     disabled={loading}
                   />
-                  <button
-                    type="submit"
-                    disabled={loading || !inputMessage.trim()}
-                    className="inline-flex items-center px-6 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {loading ? (
-                      'Sending...'
-                    ) : (
-                      <>
-                        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                        </svg>
-                      </>
-                    )}
-                  </button>
+                  {loading ? (
+                    <button
+                      type="button"
+                      onClick={handleCancel}
+                      className="inline-flex items-center px-6 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                      Stop
+                    </button>
+                  ) : (
+                    <button
+                      type="submit"
+                      disabled={!inputMessage.trim()}
+                      className="inline-flex items-center px-6 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                      </svg>
+                    </button>
+                  )}
                 </form>
                 <p className="mt-2 text-xs text-gray-500 text-center">
                   Responses are generated by AI and should be verified for critical decisions
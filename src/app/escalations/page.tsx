@@ -22,6 +22,18 @@ interface Escalation {
     id: string;
     title: string;
   };
+  chatbotContext?: {
+    conversationTitle: string | null;
+    transcript: { role: 'USER' | 'ASSISTANT'; content: string; createdAt: string }[];
+    sources: { title: string; section?: string | null; type: string }[];
+  } | null;
+  // Only returned to legal counsel and admins
+  chatbotConversation?: {
+    id: string;
+    legalHoldAt: string | null;
+    legalHoldReason: string | null;
+    anonymizedAt: string | null;
+  } | null;
 }
 
 export default function EscalationsPage() {
@@ -52,6 +64,33 @@ export default function EscalationsPage() {
     }
   }
 
+  async function updateLegalHold(conversationId: string, hold: boolean) {
+    let reason: string | null = null;
+    if (hold) {
+      reason = prompt('Why is this conversation on legal hold? It will not be purged until the hold is released.');
+      if (!reason?.trim()) return;
+    } else if (!confirm('Release the legal hold? The conversation can then be purged under the retention policy.')) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/chatbot/conversations/${conversationId}/legal-hold`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(hold ? { hold, reason } : { hold }),
+      });
+
+      if (res.ok) {
+        fetchEscalations();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to update legal hold');
+      }
+    } catch (error) {
+      console.error('Error updating legal hold:', error);
+    }
+  }
+
   function getPriorityColor(priority: string) {
     switch (priority) {
       case 'URGENT':
@@ -181,6 +220,65 @@ export default function EscalationsPage() {
                               Related Post: {escalation.post.title}
                             </Link>
                           )}
+                          {escalation.chatbotContext && (
+                            <details className="mt-2 text-sm">
+                              <summary className="cursor-pointer text-blue-600 hover:text-blue-500">
+                                Chatbot transcript ({escalation.chatbotContext.transcript.length} messages)
+                              </summary>
+                              <div className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+                                {escalation.chatbotContext.transcript.map((msg, idx) => (
+                                  <div key={idx}>
+                                    <span className="text-xs font-semibold text-gray-500">
+                                      {msg.role === 'USER' ? escalation.requester.fullName : 'Assistant'}
+                                    </span>
+                                    <p className="whitespace-pre-wrap text-gray-800">{msg.content}</p>
+                                  </div>
+                                ))}
+                                {escalation.chatbotContext.sources.length > 0 && (
+                                  <div>
+                                    <span className="text-xs font-semibold text-gray-500">Cited sources</span>
+                                    <ul className="text-xs text-gray-600">
+                                      {escalation.chatbotContext.sources.map((source, idx) => (
+                                        <li key={idx}>
+                                          • {source.title}
+                                          {source.section && ` › ${source.section}`} ({source.type})
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                )}
+                              </div>
+                            </details>
+                          )}
+                          {escalation.chatbotConversation && (
+                            <div className="mt-2 text-sm">
+                              {escalation.chatbotConversation.anonymizedAt ? (
+                                <span className="text-gray-500">
+                                  Chatbot conversation anonymized under the retention policy
+                                </span>
+                              ) : escalation.chatbotConversation.legalHoldAt ? (
+                                <span className="text-amber-700">
+                                  Chatbot conversation on legal hold since{' '}
+                                  {new Date(escalation.chatbotConversation.legalHoldAt).toLocaleDateString()}
+                                  {escalation.chatbotConversation.legalHoldReason &&
+                                    `: ${escalation.chatbotConversation.legalHoldReason}`}
+                                  <button
+                                    onClick={() => updateLegalHold(escalation.chatbotConversation!.id, false)}
+                                    className="ml-2 text-blue-600 hover:text-blue-500"
+                                  >
+                                    Release hold
+                                  </button>
+                                </span>
+                              ) : (
+                                <button
+                                  onClick={() => updateLegalHold(escalation.chatbotConversation!.id, true)}
+                                  className="text-blue-600 hover:text-blue-500"
+                                >
+                                  Place chatbot conversation on legal hold
+                                </button>
+                              )}
+                            </div>
+                          )}
                         </div>
                         <div className="ml-4 flex-shrink-0">
                           <Link
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useSession } from 'next-auth/react';
 import Navbar from '@/components/Navbar';
 
@@ -14,6 +14,8 @@ interface Category {
 
 export default function NewPostPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const fromConversation = searchParams.get('fromConversation');
   const { data: session } = useSession();
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
@@ -22,6 +24,8 @@ export default function NewPostPage() {
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [redactDraft, setRedactDraft] = useState(true);
+  const [draftLoading, setDraftLoading] = useState(false);
 
   useEffect(() => {
     // For now, we'll use hardcoded categories
@@ -66,6 +70,33 @@ export default function NewPostPage() {
     ]);
   }, []);
 
+  // Prefill from a chatbot conversation, redacted unless the member opts out
+  useEffect(() => {
+    if (fromConversation) {
+      fetchDraft(fromConversation, redactDraft);
+    }
+  }, [fromConversation, redactDraft]);
+
+  async function fetchDraft(conversationId: string, redacted: boolean) {
+    setDraftLoading(true);
+
+    try {
+      const res = await fetch(`/api/chatbot/conversations/${conversationId}/forum-draft?redacted=${redacted}`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setTitle(data.title);
+        setContent(data.content);
+      } else {
+        setError(data.error || 'Failed to load the conversation');
+      }
+    } catch (err) {
+      setError('Failed to load the conversation');
+    } finally {
+      setDraftLoading(false);
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError('');
@@ -120,6 +151,32 @@ export default function NewPostPage() {
                 </div>
               )}
 
+              {fromConversation && (
+                <div className="bg-blue-50 border border-blue-200 rounded p-4 text-sm text-blue-900">
+                  <p>
+                    {draftLoading
+                      ? 'Loading your chatbot conversation...'
+                      : 'This post is prefilled with a summary of your chatbot conversation. Edit it before posting, and add what you want to ask the community.'}
+                  </p>
+                  <label className="mt-2 flex items-start">
+                    <input
+                      type="checkbox"
+                      checked={redactDraft}
+                      onChange={(e) => {
+                        if (confirm('This replaces the title and details with a fresh summary. Continue?')) {
+                          setRedactDraft(e.target.checked);
+                        }
+                      }}
+                      className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2">
+                      Hide personal and medical details (names, contact details, diagnoses) behind placeholders such as
+                      [PERSON_1]
+                    </span>
+                  </label>
+                </div>
+              )}
+
               {/* Category Selection */}
               <div>
                 <label htmlFor="category" className="block text-sm font-medium text-gray-700">
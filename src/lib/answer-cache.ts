@@ -0,0 +1,271 @@
+/**
+ * Semantic answer cache
+ *
+ * Members often ask nearly the same question, e.g. how long a temporary
+ * restriction can last. Answers are cached against an embedding of the
+ * normalized question and a fingerprint of the documents retrieved for it,
+ * with their versions. A later question is answered from the cache when it is
+ * similar enough and retrieval for it returns the same documents at the same
+ * versions, so:
+ * - an edited or deactivated document never serves a stale answer; entries
+ *   citing a document are also deleted as soon as it changes
+ * - members only get cached answers whose sources they could retrieve themselves
+ * - answers from another prompt version or model are not reused
+ * - when the prompt includes the member's role or department, answers are only
+ *   reused for members with the same ones
+ * Entries expire after ANSWER_CACHE_TTL_HOURS regardless.
+ *
+ * The chatbot only consults the cache for the first question in a conversation,
+ * and only stores answers that needed no personal details or lookups.
+ *
+ * ANSWER_CACHE=off turns it off; ANSWER_CACHE_SIMILARITY sets how close a
+ * question must be to a cached one.
+ */
+
+import crypto from 'crypto';
+import { AnswerCacheStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { getEmbeddingProvider, toVectorLiteral } from './embeddings';
+import { SearchResult } from './knowledge-base';
+import { Citation } from './citations';
+
+export interface AnswerCacheKey {
+  question: string; // Normalized
+  questionHash: string;
+  embedding: number[];
+  embeddingProvider: string;
+  embeddingModel: string;
+  sourceFingerprint: string;
+  documentIds: string[];
+  promptTemplateId: string | null;
+  model: string;
+}
+
+export interface CachedAnswer {
+  id: string;
+  answer: string; // Citations already validated
+  sources: SearchResult[];
+  citations: Citation[];
+  suggestedQuestions: string[];
+}
+
+function cacheEnabled(): boolean {
+  return process.env.ANSWER_CACHE !== 'off';
+}
+
+function similarityThreshold(): number {
+  return parseFloat(process.env.ANSWER_CACHE_SIMILARITY || '0.9');
+}
+
+function ttlHours(): number {
+  return parseFloat(process.env.ANSWER_CACHE_TTL_HOURS || '24');
+}
+
+/**
+ * Lowercase, without punctuation or extra whitespace
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Cache key for a question and the sources retrieved for it
+ * `audience` lists the details about the member that the prompt includes, e.g.
+ * `department=Fire`, and is part of the fingerprint. Returns null when the
+ * cache is off, nothing was retrieved, or a source is no longer active. Cache
+ * failures never fail an answer, so errors are logged and give null as well.
+ */
+export async function buildAnswerCacheKey(
+  question: string,
+  sources: SearchResult[],
+  promptTemplateId: string | null,
+  model: string,
+  audience: string[] = []
+): Promise<AnswerCacheKey | null> {
+  const normalized = normalizeQuestion(question);
+  if (!cacheEnabled() || !normalized || sources.length === 0) {
+    return null;
+  }
+
+  try {
+    const documentIds = Array.from(new Set(sources.map((source) => source.documentId))).sort();
+    const documents = await prisma.trainingDocument.findMany({
+      where: { id: { in: documentIds }, isActive: true },
+      select: { id: true, updatedAt: true },
+      orderBy: { id: 'asc' },
+    });
+    if (documents.length !== documentIds.length) {
+      return null;
+    }
+
+    const provider = getEmbeddingProvider();
+    const [embedding] = await provider.embed([normalized]);
+
+    return {
+      question: normalized,
+      questionHash: crypto.createHash('sha256').update(normalized).digest('hex'),
+      embedding,
+      embeddingProvider: provider.name,
+      embeddingModel: provider.model,
+      sourceFingerprint: crypto
+        .createHash('sha256')
+        .update(
+          [
+            ...documents.map((document) => `${document.id}@${document.updatedAt.toISOString()}`),
+            ...audience,
+          ].join('\n')
+        )
+        .digest('hex'),
+      documentIds,
+      promptTemplateId,
+      model,
+    };
+  } catch (error) {
+    logger.error('Failed to build answer cache key', error);
+    return null;
+  }
+}
+
+/**
+ * The closest cached answer for a key, if it is similar enough
+ * Counts the hit on the entry.
+ */
+export async function findCachedAnswer(key: AnswerCacheKey): Promise<CachedAnswer | null> {
+  try {
+    const [match] = await prisma.$queryRaw<{ id: string; questionHash: string; similarity: number }[]>`
+      SELECT id, question_hash AS "questionHash", 1 - (embedding <=> ${toVectorLiteral(key.embedding)}::vector) AS similarity
+      FROM chatbot_answer_cache
+      WHERE source_fingerprint = ${key.sourceFingerprint}
+        AND prompt_template_id IS NOT DISTINCT FROM ${key.promptTemplateId}::text
+        AND model = ${key.model}
+        AND embedding_provider = ${key.embeddingProvider}
+        AND embedding_model = ${key.embeddingModel}
+        AND expires_at > NOW()
+      ORDER BY embedding <=> ${toVectorLiteral(key.embedding)}::vector
+      LIMIT 1
+    `;
+
+    if (!match || (match.questionHash !== key.questionHash && match.similarity < similarityThreshold())) {
+      return null;
+    }
+
+    const entry = await prisma.chatbotAnswerCache.update({
+      where: { id: match.id },
+      data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+      select: { id: true, answer: true, sources: true, citations: true, suggestedQuestions: true },
+    });
+
+    return {
+      id: entry.id,
+      answer: entry.answer,
+      sources: entry.sources as unknown as SearchResult[],
+      citations: entry.citations as unknown as Citation[],
+      suggestedQuestions: entry.suggestedQuestions,
+    };
+  } catch (error) {
+    logger.error('Answer cache lookup failed', error);
+    return null;
+  }
+}
+
+/**
+ * Cache an answer under a key
+ */
+export async function storeCachedAnswer(
+  key: AnswerCacheKey,
+  answer: Omit<CachedAnswer, 'id'>
+): Promise<void> {
+  const expiresAt = new Date(Date.now() + ttlHours() * 60 * 60 * 1000);
+
+  try {
+    await prisma.$executeRaw`
+      INSERT INTO chatbot_answer_cache
+        (id, question, question_hash, embedding, embedding_provider, embedding_model, source_fingerprint,
+         document_ids, prompt_template_id, model, answer, sources, citations, suggested_questions,
+         hit_count, expires_at, created_at)
+      VALUES
+        (${crypto.randomUUID()}, ${key.question}, ${key.questionHash}, ${toVectorLiteral(key.embedding)}::vector,
+         ${key.embeddingProvider}, ${key.embeddingModel}, ${key.sourceFingerprint}, ${key.documentIds}::text[],
+         ${key.promptTemplateId}, ${key.model}, ${answer.answer}, ${JSON.stringify(answer.sources)}::jsonb,
+         ${JSON.stringify(answer.citations)}::jsonb, ${answer.suggestedQuestions}::text[], 0, ${expiresAt}, NOW())
+    `;
+  } catch (error) {
+    logger.error('Failed to cache answer', error);
+  }
+}
+
+/**
+ * Delete cached answers that cite any of the given documents
+ * Called whenever a training document is edited, deactivated or deleted.
+ */
+export async function invalidateCachedAnswers(documentIds: string[]): Promise<number> {
+  if (documentIds.length === 0) return 0;
+
+  const { count } = await prisma.chatbotAnswerCache.deleteMany({
+    where: { documentIds: { hasSome: documentIds } },
+  });
+
+  if (count > 0) {
+    logger.info('Invalidated cached answers', { documentIds, count });
+  }
+
+  return count;
+}
+
+/**
+ * Delete every cached answer
+ */
+export async function clearAnswerCache(): Promise<number> {
+  const { count } = await prisma.chatbotAnswerCache.deleteMany({});
+  return count;
+}
+
+/**
+ * Hit rate since a date, by day, with the most reused cached answers
+ * Only questions that were eligible for the cache count towards the rate.
+ */
+export async function getAnswerCacheStats(since: Date) {
+  const where: Prisma.ChatbotMessageWhereInput = { createdAt: { gte: since }, cacheStatus: { not: null } };
+
+  const [byStatus, byDay, entries, topEntries] = await Promise.all([
+    prisma.chatbotMessage.groupBy({ by: ['cacheStatus'], where, _count: true }),
+    prisma.$queryRaw<{ day: Date; hits: bigint; misses: bigint }[]>`
+      SELECT date_trunc('day', created_at) AS day,
+             COUNT(*) FILTER (WHERE cache_status = 'HIT') AS hits,
+             COUNT(*) FILTER (WHERE cache_status = 'MISS') AS misses
+      FROM chatbot_messages
+      WHERE created_at >= ${since} AND cache_status IS NOT NULL
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    prisma.chatbotAnswerCache.count({ where: { expiresAt: { gt: new Date() } } }),
+    prisma.chatbotAnswerCache.findMany({
+      where: { expiresAt: { gt: new Date() }, hitCount: { gt: 0 } },
+      select: { id: true, question: true, hitCount: true, lastHitAt: true, createdAt: true },
+      orderBy: { hitCount: 'desc' },
+      take: 10,
+    }),
+  ]);
+
+  const count = (status: AnswerCacheStatus) => byStatus.find((row) => row.cacheStatus === status)?._count ?? 0;
+  const hits = count(AnswerCacheStatus.HIT);
+  const misses = count(AnswerCacheStatus.MISS);
+
+  return {
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+    entries,
+    byDay: byDay.map((row) => ({
+      day: row.day.toISOString().slice(0, 10),
+      hits: Number(row.hits),
+      misses: Number(row.misses),
+    })),
+    topEntries,
+  };
+}
@@ -0,0 +1,111 @@
+import { EscalationType } from '@prisma/client';
+import { prisma } from './prisma';
+import { loadRedactionVault, restoreText } from './redaction';
+
+// Maximum number of messages copied into the escalation transcript
+const TRANSCRIPT_LIMIT = 50;
+
+const LEGAL_PATTERNS = [
+  /legal (counsel|department|team|advice|interpretation|review)/i,
+  /\b(attorney|lawyer)s?\b/i,
+  /consult(ing)? (with )?legal/i,
+];
+
+const LIAISON_PATTERNS = [/\bRTW liaison\b/i, /\bliaison\b/i];
+
+export interface EscalationRecommendation {
+  escalationType: EscalationType;
+  recommended: boolean; // False when the answer didn't recommend escalating at all
+}
+
+export interface ChatbotEscalationContext {
+  conversationTitle: string | null;
+  transcript: { role: 'USER' | 'ASSISTANT'; content: string; createdAt: Date }[];
+  sources: unknown[];
+}
+
+/**
+ * Pick the escalation type the assistant recommended in its answer
+ * Legal counsel wins when both are mentioned, since legal questions usually
+ * need counsel even if the liaison is looped in. Defaults to LIAISON.
+ */
+export function recommendEscalationType(answer: string): EscalationRecommendation {
+  if (LEGAL_PATTERNS.some((pattern) => pattern.test(answer))) {
+    return { escalationType: EscalationType.LEGAL, recommended: true };
+  }
+
+  return {
+    escalationType: EscalationType.LIAISON,
+    recommended: LIAISON_PATTERNS.some((pattern) => pattern.test(answer)),
+  };
+}
+
+/**
+ * Snapshot the conversation up to an assistant message for an escalation
+ * Redacted details are restored, since the member is choosing to share the
+ * conversation with their liaison or counsel.
+ */
+export async function buildEscalationContext(
+  conversationId: string,
+  message: { createdAt: Date; sources: unknown }
+): Promise<ChatbotEscalationContext> {
+  const [conversation, messages, vault] = await Promise.all([
+    prisma.chatbotConversation.findUnique({
+      where: { id: conversationId },
+      select: { title: true },
+    }),
+    prisma.chatbotMessage.findMany({
+      where: {
+        conversationId,
+        createdAt: { lte: message.createdAt },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: TRANSCRIPT_LIMIT,
+      select: { role: true, content: true, createdAt: true },
+    }),
+    loadRedactionVault(conversationId),
+  ]);
+
+  return {
+    conversationTitle: conversation?.title ?? null,
+    transcript: messages.reverse().map((msg) => ({ ...msg, content: restoreText(msg.content, vault) })),
+    sources: Array.isArray(message.sources) ? message.sources : [],
+  };
+}
+
+/**
+ * Description for the assignee's notification email
+ * Leaves out the transcript, which holds the member's restored personal and
+ * medical details, so email only says where to read it.
+ */
+export function formatEscalationEmailSummary(
+  context: ChatbotEscalationContext,
+  note?: string
+): string {
+  return [
+    note,
+    `Escalated from chatbot conversation "${context.conversationTitle || 'Untitled'}" (${context.transcript.length} messages). Open the escalation to read the question, the chatbot's answer and the transcript.`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Escalation description from the question and the answer being escalated
+ */
+export function formatEscalationDescription(
+  context: ChatbotEscalationContext,
+  note?: string
+): string {
+  const answer = context.transcript[context.transcript.length - 1];
+  const question = [...context.transcript].reverse().find((msg) => msg.role === 'USER');
+
+  return [
+    note,
+    `Escalated from chatbot conversation "${context.conversationTitle || 'Untitled'}".`,
+    question && `Question:\n${question.content}`,
+    answer && `Chatbot answer:\n${answer.content}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -0,0 +1,296 @@
+/**
+ * Server-side tools the chatbot model can call
+ *
+ * Some questions need structured lookups rather than retrieved text, e.g.
+ * "which bridge assignments fit a 20 lb lifting restriction?" or "what's
+ * happening with my escalation?". Tools only ever read data the member could
+ * see themselves: documents respect their visibility rules, escalations are
+ * the member's own, and private forum posts are only returned to their author.
+ * Free text from escalations and posts is redacted before it reaches the model.
+ */
+
+import { z } from 'zod';
+import { DocumentType, EscalationStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { NotFoundError } from './errors';
+import { LlmTool, LlmToolCall, LlmToolResult } from './llm';
+import { DocumentViewer } from './document-visibility';
+import { visibilityCondition } from './knowledge-base';
+import { DEMAND_LINE_FILTER, extractPhysicalDemands, matchRestrictions, PHYSICAL_DEMANDS } from './physical-demands';
+
+export interface ToolContext {
+  userId: string;
+  viewer: DocumentViewer | null;
+  redact: (text: string) => string; // Replaces personal and medical details with placeholders
+}
+
+// Stored on the answer for every call, including failed ones
+export interface ToolCallLog {
+  id: string;
+  name: string;
+  input: unknown;
+  output: unknown; // Null when the call failed
+  error: string | null;
+  durationMs: number;
+}
+
+interface ChatbotTool<T extends z.ZodTypeAny> {
+  definition: LlmTool;
+  schema: T;
+  run(input: z.infer<T>, context: ToolContext): Promise<unknown>;
+}
+
+function defineTool<T extends z.ZodTypeAny>(tool: ChatbotTool<T>): ChatbotTool<T> {
+  return tool;
+}
+
+const OPEN_STATUSES: EscalationStatus[] = [EscalationStatus.OPEN, EscalationStatus.IN_PROGRESS];
+
+// Most job descriptions and bridge assignments assessed per physical-demands lookup
+const MAX_DEMAND_CANDIDATES = 200;
+
+const searchPhysicalDemands = defineTool({
+  definition: {
+    name: 'search_physical_demands',
+    description:
+      "Find job descriptions and bridge assignments whose stated physical demands fit a member's work restrictions. Use this for questions like which positions or bridge assignments fit a lifting limit or rule out kneeling. Results that fit are listed first; notStated lists restricted demands a document doesn't mention, which should be confirmed with the RTW Liaison.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        maxLiftPounds: { type: 'number', description: 'Heaviest weight the member may lift or carry, in pounds' },
+        maxPushPullPounds: { type: 'number', description: 'Heaviest weight the member may push or pull, in pounds' },
+        noActivities: {
+          type: 'array',
+          items: { type: 'string', enum: PHYSICAL_DEMANDS },
+          description: 'Activities the member cannot do at all',
+        },
+        occasionalOnly: {
+          type: 'array',
+          items: { type: 'string', enum: PHYSICAL_DEMANDS },
+          description: 'Activities the member may only do occasionally (up to a third of the day)',
+        },
+        documentType: {
+          type: 'string',
+          enum: ['JOB_DESC', 'BRIDGE'],
+          description: 'Only job descriptions or only bridge assignments; both when omitted',
+        },
+        keyword: { type: 'string', description: 'Optional word the title or description must contain' },
+        limit: { type: 'integer', description: 'Maximum results, 1-20 (default 10)' },
+      },
+    },
+  },
+  schema: z.object({
+    maxLiftPounds: z.number().positive().max(500).optional(),
+    maxPushPullPounds: z.number().positive().max(500).optional(),
+    noActivities: z.array(z.enum(PHYSICAL_DEMANDS)).optional(),
+    occasionalOnly: z.array(z.enum(PHYSICAL_DEMANDS)).optional(),
+    documentType: z.enum(['JOB_DESC', 'BRIDGE']).optional(),
+    keyword: z.string().trim().min(2).max(100).optional(),
+    limit: z.number().int().min(1).max(20).default(10),
+  }),
+  async run({ limit, documentType, keyword, ...restrictions }, context) {
+    const documentTypes = documentType ? [documentType] : [DocumentType.JOB_DESC, DocumentType.BRIDGE];
+    const pattern = keyword && `%${keyword.replace(/[\\%_]/g, '\\$&')}%`;
+    const keywordCondition = pattern
+      ? Prisma.sql`AND (d.title ILIKE ${pattern} OR d.content ILIKE ${pattern})`
+      : Prisma.empty;
+
+    // Only the lines that may state physical demands are read, not whole documents
+    const documents = await prisma.$queryRaw<
+      { id: string; title: string; documentType: DocumentType; demandLines: string }[]
+    >`
+      SELECT d.id, d.title, d.document_type::text AS "documentType",
+             array_to_string(ARRAY(
+               SELECT line FROM regexp_split_to_table(d.content, E'[\\n;]') AS line
+               WHERE length(line) <= 300 AND line ~* ${DEMAND_LINE_FILTER}
+             ), E'\\n') AS "demandLines"
+      FROM training_documents d
+      WHERE d.is_active = true
+        AND d.document_type::text = ANY(${documentTypes}::text[])
+        AND ${visibilityCondition(context.viewer)}
+        ${keywordCondition}
+      ORDER BY d.title
+      LIMIT ${MAX_DEMAND_CANDIDATES}
+    `;
+
+    const assessed = documents.map((document) => {
+      const requirements = extractPhysicalDemands(document.demandLines);
+      return { document, requirements, match: matchRestrictions(requirements, restrictions) };
+    });
+
+    const fitting = assessed
+      .filter((item) => item.match.fits)
+      .sort((a, b) => a.match.notStated.length - b.match.notStated.length);
+    const excluded = assessed.filter((item) => !item.match.fits);
+
+    return {
+      searched: documents.length,
+      matches: fitting.slice(0, limit).map(({ document, requirements, match }) => ({
+        documentId: document.id,
+        title: document.title,
+        type: document.documentType,
+        statedDemands: Array.from(new Set(requirements.map((item) => item.text))).slice(0, 8),
+        notStated: match.notStated,
+        link: `/chatbot/documents/${document.id}`,
+      })),
+      moreMatches: Math.max(0, fitting.length - limit),
+      excluded: excluded.slice(0, 5).map(({ document, match }) => ({
+        title: document.title,
+        type: document.documentType,
+        conflicts: match.conflicts,
+      })),
+      excludedCount: excluded.length,
+    };
+  },
+});
+
+const listMyEscalations = defineTool({
+  definition: {
+    name: 'list_my_escalations',
+    description:
+      "List the member's own escalations to an RTW Liaison or legal counsel, newest first, with their status. Open and in-progress escalations only unless includeResolved is true.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        includeResolved: { type: 'boolean', description: 'Also include resolved and closed escalations' },
+      },
+    },
+  },
+  schema: z.object({
+    includeResolved: z.boolean().default(false),
+  }),
+  async run({ includeResolved }, context) {
+    const escalations = await prisma.escalation.findMany({
+      where: {
+        requesterId: context.userId,
+        ...(!includeResolved && { status: { in: OPEN_STATUSES } }),
+      },
+      include: {
+        assignedTo: { select: { fullName: true, role: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+    });
+
+    return {
+      escalations: escalations.map((escalation) => ({
+        id: escalation.id,
+        type: escalation.escalationType,
+        priority: escalation.priority,
+        status: escalation.status,
+        description: context.redact(escalation.description.slice(0, 500)),
+        resolution: escalation.resolution ? context.redact(escalation.resolution.slice(0, 500)) : null,
+        assignedTo: escalation.assignedTo
+          ? { name: context.redact(escalation.assignedTo.fullName), role: escalation.assignedTo.role }
+          : null,
+        createdAt: escalation.createdAt.toISOString(),
+        updatedAt: escalation.updatedAt.toISOString(),
+        link: '/escalations',
+      })),
+    };
+  },
+});
+
+const getForumPost = defineTool({
+  definition: {
+    name: 'get_forum_post',
+    description:
+      'Fetch a forum post and its replies by id, e.g. when the member links to /forum/posts/<id> or a source cites a forum post.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        postId: { type: 'string', description: 'The post id (a UUID)' },
+      },
+      required: ['postId'],
+    },
+  },
+  schema: z.object({
+    postId: z.string().uuid(),
+  }),
+  async run({ postId }, context) {
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+      include: {
+        category: { select: { name: true } },
+        replies: {
+          select: { content: true, isHelpful: true, createdAt: true, author: { select: { role: true } } },
+          orderBy: { createdAt: 'asc' },
+          take: 10,
+        },
+        _count: { select: { replies: true } },
+      },
+    });
+
+    // Private posts look the same as missing ones
+    if (!post || (post.isPrivate && post.authorId !== context.userId)) {
+      throw new NotFoundError('Forum post not found');
+    }
+
+    return {
+      id: post.id,
+      title: context.redact(post.title),
+      category: post.category.name,
+      content: context.redact(post.content.slice(0, 4000)),
+      isResolved: post.isResolved,
+      createdAt: post.createdAt.toISOString(),
+      replyCount: post._count.replies,
+      replies: post.replies.map((reply) => ({
+        authorRole: reply.author.role,
+        markedHelpful: reply.isHelpful,
+        content: context.redact(reply.content.slice(0, 1000)),
+      })),
+      link: `/forum/posts/${post.id}`,
+    };
+  },
+});
+
+const TOOLS: ChatbotTool<z.ZodTypeAny>[] = [searchPhysicalDemands, listMyEscalations, getForumPost];
+
+export const CHATBOT_TOOLS: LlmTool[] = TOOLS.map((tool) => tool.definition);
+
+// How the chat shows a lookup in progress
+export const TOOL_LABELS: Record<string, string> = {
+  search_physical_demands: 'Searching job descriptions and bridge assignments',
+  list_my_escalations: 'Checking your escalations',
+  get_forum_post: 'Reading the forum post',
+};
+
+/**
+ * Run a tool call from the model
+ * Failures are returned to the model as error results so it can recover.
+ */
+export async function runChatbotTool(
+  call: LlmToolCall,
+  context: ToolContext
+): Promise<{ result: LlmToolResult; log: ToolCallLog }> {
+  const startedAt = Date.now();
+  const tool = TOOLS.find((item) => item.definition.name === call.name);
+
+  try {
+    if (!tool) {
+      throw new NotFoundError(`Unknown tool: ${call.name}`);
+    }
+
+    const output = await tool.run(tool.schema.parse(call.input), context);
+
+    return {
+      result: { toolCallId: call.id, content: JSON.stringify(output) },
+      log: { id: call.id, name: call.name, input: call.input, output, error: null, durationMs: Date.now() - startedAt },
+    };
+  } catch (error) {
+    let message = 'The lookup failed';
+    if (error instanceof z.ZodError) {
+      message = `Invalid input: ${error.errors[0].path.join('.')} ${error.errors[0].message}`;
+    } else if (error instanceof NotFoundError) {
+      message = error.message;
+    } else {
+      logger.error('Chatbot tool failed', error, { tool: call.name });
+    }
+
+    return {
+      result: { toolCallId: call.id, content: message, isError: true },
+      log: { id: call.id, name: call.name, input: call.input, output: null, error: message, durationMs: Date.now() - startedAt },
+    };
+  }
+}
@@ -1,135 +1,503 @@
-import Anthropic from '@anthropic-ai/sdk';
+import crypto from 'crypto';
+import { AnswerCacheStatus, UserRole } from '@prisma/client';
 import { prisma } from './prisma';
+import { getLlmProvider, LlmCompletion, LlmMessage, LlmProvider } from './llm';
+import { searchKnowledgeBaseQueries, SearchResult } from './knowledge-base';
+import { DocumentViewer, getDocumentViewer, mostRestrictiveTier } from './document-visibility';
+import {
+  ActivePrompt,
+  DEFAULT_CHATBOT_PROMPT,
+  getPublishedPrompt,
+  renderPromptTemplate,
+  usedPromptVariables,
+} from './prompt-templates';
+import { rewriteSearchQuery, RewrittenQuery } from './query-rewriting';
+import { Citation, validateCitations } from './citations';
+import { logger } from './logger';
+import { assessAnswerConfidence } from './knowledge-gaps';
+import { LlmUsageEntry, UsageMeter } from './usage';
+import { suggestFollowUpQuestions } from './follow-up-questions';
+import { AnswerCacheKey, buildAnswerCacheKey, findCachedAnswer, storeCachedAnswer } from './answer-cache';
+import { DEFAULT_CONVERSATION_TITLE } from './conversation-titles';
+import { CHATBOT_TOOLS, runChatbotTool, TOOL_LABELS, ToolCallLog, ToolContext } from './chatbot-tools';
+import {
+  buildConversationContext,
+  ChatMessage,
+  ConversationSummarizer,
+  formatTranscript,
+} from './conversation-context';
+import {
+  createStreamRestorer,
+  extendVault,
+  loadRedactionVault,
+  RedactionEntry,
+  redactText,
+  RedactionResult,
+  RedactionVault,
+  restoreText,
+} from './redaction';
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+interface PreparedRequest {
+  systemPrompt: string;
+  messages: LlmMessage[];
+  sources: SearchResult[];
+  searchQuery: RewrittenQuery;
+  prompt: ActivePrompt;
+  redaction: RedactionResult;
+  vault: RedactionVault; // Grows as tool results are redacted
+  viewer: DocumentViewer | null;
+  firstMessage: boolean; // No earlier turns, so the answer doesn't depend on the conversation
+  toolCalls: ToolCallLog[];
+  toolRedactions: Map<string, RedactionEntry>;
+}
+
+// Rounds of tool calls before the model has to answer with what it has
+const MAX_TOOL_ROUNDS = 3;
+
+const UNFINISHED_LOOKUP_MESSAGE =
+  "I wasn't able to finish looking that up. Please try rephrasing your question, or escalate it to your RTW Liaison.";
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+export interface ChatbotResponse {
+  response: string; // With placeholders and validated citations; this is what gets stored
+  displayResponse: string; // Placeholders restored for the member
+  sources: SearchResult[];
+  citations: Citation[];
+  invalidCitations: number[]; // Source numbers the model cited that weren't retrieved
+  searchQuery: RewrittenQuery; // What the knowledge base was searched with
+  promptTemplateId: string | null; // System prompt version used; null for the built-in default
+  redaction: RedactionResult; // The member's message as sent to the model
+  suggestedQuestions: string[]; // Follow-ups grounded in the sources, with placeholders
+  displaySuggestedQuestions: string[]; // Placeholders restored for the member
+  toolCalls: ToolCallLog[]; // Lookups the model made while answering
+  toolRedactions: RedactionEntry[]; // Details redacted from lookup results
+  cacheStatus: AnswerCacheStatus | null; // HIT when served from the answer cache
+  usage: LlmUsageEntry[]; // Every model call made for this answer
 }
 
-interface SearchResult {
-  content: string;
-  title: string;
-  type: string;
-  score: number;
+export interface SavedMessageDetails {
+  sources?: SearchResult[];
+  citations?: Citation[];
+  invalidCitations?: number[];
+  searchQuery?: RewrittenQuery;
+  promptTemplateId?: string | null;
+  redactions?: RedactionResult['redactions'];
+  suggestedQuestions?: string[];
+  cacheStatus?: AnswerCacheStatus | null;
+  toolCalls?: ToolCallLog[];
+  toolRedactions?: RedactionEntry[];
 }
 
+export type ChatbotStreamEvent =
+  | { type: 'sources'; sources: SearchResult[] }
+  | { type: 'tool'; name: string; label: string }
+  | { type: 'token'; text: string };
+
 /**
- * Search training documents for relevant context
- * In production, this would use a vector database (Pinecone, pgvector)
- * For now, it does simple text matching
+ * Summarize older turns of a conversation with the given model
  */
-async function searchKnowledgeBase(query: string): Promise<SearchResult[]> {
-  // TODO: Implement vector similarity search
-  // For now, return recent training documents
-  const documents = await prisma.trainingDocument.findMany({
-    where: {
-      isActive: true,
-      OR: [
-        { content: { contains: query, mode: 'insensitive' } },
-        { title: { contains: query, mode: 'insensitive' } },
-      ],
-    },
-    take: 5,
-    orderBy: { createdAt: 'desc' },
+const conversationSummarizer = (llm: LlmProvider): ConversationSummarizer => async (
+  previousSummary,
+  messages,
+  maxTokens
+) => {
+  const { text } = await llm.complete({
+    purpose: 'summary',
+    maxTokens,
+    system: `You maintain a running summary of a conversation between an SD member and the RTW program assistant. Merge the existing summary with the new turns into one updated summary. Keep case facts (restriction types, durations, industrial or non-industrial status, job classifications), questions asked, guidance given, and any recommended escalations. Omit pleasantries. Write plain prose in the third person.`,
+    messages: [
+      {
+        role: 'user',
+        content: `Existing summary:\n${previousSummary || '(none)'}\n\nNew turns:\n${formatTranscript(messages)}`,
+      },
+    ],
+  });
+
+  return text.trim() || previousSummary || '';
+};
+
+// How each role is described to the model
+const ROLE_LABELS: Record<UserRole, string> = {
+  MEMBER: 'SD Member',
+  LIAISON: 'RTW Liaison',
+  LEGAL: 'Legal Counsel',
+  ADMIN: 'Administrator',
+};
+
+/**
+ * System prompt for the RTW assistant with the retrieved sources
+ * Renders the given template version, the built-in default unless one is published.
+ */
+export function buildChatbotSystemPrompt(
+  sources: SearchResult[],
+  summary: string | null = null,
+  options: { template?: string; viewer?: DocumentViewer | null } = {}
+): string {
+  const context = sources
+    .map((result, idx) => {
+      const label = result.section ? `${result.title} > ${result.section}` : result.title;
+      return `[Source ${idx + 1}: ${label} (${result.type})]\n${result.content}`;
+    })
+    .join('\n\n');
+
+  return renderPromptTemplate(options.template ?? DEFAULT_CHATBOT_PROMPT, {
+    context,
+    summary: summary ? `\nSummary of the earlier conversation:\n${summary}\n` : '',
+    ...viewerPromptValues(options.viewer ?? null),
   });
+}
 
-  return documents.map((doc) => ({
-    content: doc.content,
-    title: doc.title,
-    type: doc.documentType,
-    score: 0.8, // Placeholder score
-  }));
+/**
+ * Prompt variables that describe the member asking
+ */
+function viewerPromptValues(viewer: DocumentViewer | null): Record<'userRole' | 'department', string> {
+  return {
+    userRole: viewer ? ROLE_LABELS[viewer.role] : 'Unknown',
+    department: viewer?.department || 'Not specified',
+  };
 }
 
 /**
- * Generate chatbot response using Claude API with RAG
+ * Load conversation history, retrieve context and build the model request
  */
-export async function generateChatbotResponse(
+async function prepareChatbotRequest(
   userId: string,
   conversationId: string,
-  userMessage: string
-): Promise<{ response: string; sources: SearchResult[] }> {
-  // Get conversation history
-  const conversation = await prisma.chatbotConversation.findUnique({
-    where: { id: conversationId },
-    include: {
-      messages: {
-        orderBy: { createdAt: 'asc' },
-        take: 10, // Last 10 messages for context
-      },
-    },
-  });
-
-  if (!conversation || conversation.userId !== userId) {
+  userMessage: string,
+  llm: LlmProvider
+): Promise<PreparedRequest> {
+  const conversation = await getUserConversation(userId, conversationId);
+  if (!conversation) {
     throw new Error('Conversation not found');
   }
 
-  // Search knowledge base for relevant context
-  const searchResults = await searchKnowledgeBase(userMessage);
+  // Personal and medical details never leave the server; earlier turns were
+  // stored redacted, so only the new message needs it
+  const storedVault = await loadRedactionVault(conversationId);
+  const redaction = redactText(userMessage, storedVault);
+  const vault = extendVault(storedVault, redaction.redactions);
 
-  // Build context from search results
-  const context = searchResults
-    .map(
-      (result, idx) =>
-        `[Source ${idx + 1}: ${result.title} (${result.type})]\n${result.content}`
-    )
-    .join('\n\n');
+  // Recent turns verbatim, older turns as a running summary
+  const history = await buildConversationContext(conversationId, conversationSummarizer(llm));
+
+  // Follow-ups are rewritten into standalone queries before searching
+  const searchQuery = await rewriteSearchQuery(redaction.text, history.messages, history.summary, llm);
+
+  // Search knowledge base for relevant context, limited to documents the user may see
+  const viewer = await getDocumentViewer(userId);
+  const searchResults = await searchKnowledgeBaseQueries([searchQuery.query, ...searchQuery.subQueries], {
+    viewer,
+  });
+
+  const prompt = await getPublishedPrompt();
+  const systemPrompt = buildChatbotSystemPrompt(searchResults, history.summary, {
+    template: prompt.body,
+    viewer,
+  });
 
-  // Build message history
-  const messageHistory: ChatMessage[] = conversation.messages.map((msg) => ({
-    role: msg.role === 'USER' ? 'user' : 'assistant',
-    content: msg.content,
-  }));
-
-  // System prompt for RTW assistant
-  const systemPrompt = `You are an expert assistant for the SIA (State Insurance Authority) Return to Work (RTW) program. Your role is to help SD (Safety Division) members with questions about temporary and permanent work restrictions, both industrial and non-industrial cases.
-
-You have access to:
-- ADA/FEHA compliance materials
-- Historical Q&A with legal counsel
-- Job descriptions and bridge assignments
-- Approved forum discussions
-
-When answering:
-1. Base your responses on the provided context documents
-2. If you cite information, reference the source
-3. If the question requires legal interpretation beyond your knowledge, recommend escalating to legal counsel
-4. If the question is complex or you're uncertain, recommend escalating to the RTW Liaison
-5. Be clear, concise, and professional
-6. Focus on practical, actionable guidance
-
-Context documents:
-${context}
-
-If you don't have enough information to provide a confident answer, say so and suggest escalation options.`;
-
-  // Call Claude API
-  const response = await anthropic.messages.create({
-    model: 'claude-3-5-sonnet-20241022',
-    max_tokens: 2048,
-    system: systemPrompt,
+  return {
+    systemPrompt,
     messages: [
-      ...messageHistory,
+      ...history.messages,
       {
         role: 'user',
-        content: userMessage,
+        content: redaction.text,
       },
     ],
-  });
+    sources: searchResults,
+    searchQuery,
+    prompt,
+    redaction,
+    vault,
+    viewer,
+    firstMessage: history.messages.length === 0 && !history.summary,
+    toolCalls: [],
+    toolRedactions: new Map(),
+  };
+}
+
+/**
+ * Run the tool calls from a round and add them, with their results, to the messages
+ * Results are redacted with the conversation's placeholders before the model sees them.
+ */
+async function runToolRound(userId: string, prepared: PreparedRequest, completion: LlmCompletion): Promise<void> {
+  const context: ToolContext = {
+    userId,
+    viewer: prepared.viewer,
+    redact: (text) => {
+      const result = redactText(text, prepared.vault);
+      prepared.vault = extendVault(prepared.vault, result.redactions);
+      result.redactions.forEach((entry) => prepared.toolRedactions.set(entry.placeholder, entry));
+      return result.text;
+    },
+  };
+
+  const results = [];
+  for (const call of completion.toolCalls) {
+    const { result, log } = await runChatbotTool(call, context);
+    results.push(result);
+    prepared.toolCalls.push(log);
+  }
+
+  prepared.messages.push(
+    { role: 'assistant', content: completion.text, toolCalls: completion.toolCalls },
+    { role: 'user', content: '', toolResults: results }
+  );
+}
+
+/**
+ * Join the text the model wrote across tool rounds
+ */
+function joinRounds(texts: string[]): string {
+  return texts.map((text) => text.trim()).filter(Boolean).join('\n\n') || UNFINISHED_LOOKUP_MESSAGE;
+}
 
-  const assistantMessage =
-    response.content[0].type === 'text' ? response.content[0].text : '';
+/**
+ * Validate the answer's citations and restore placeholders for display
+ */
+function finishResponse(
+  text: string,
+  suggestedQuestions: string[],
+  prepared: PreparedRequest,
+  meter: UsageMeter,
+  cacheStatus: AnswerCacheStatus | null = null
+): ChatbotResponse {
+  const { sources, searchQuery, prompt, redaction, vault } = prepared;
+  const checked = validateCitations(text, sources);
+
+  if (checked.invalid.length > 0) {
+    logger.warn('Removed citations to sources that were not retrieved', {
+      invalid: checked.invalid,
+      sources: sources.length,
+    });
+  }
 
   return {
-    response: assistantMessage,
-    sources: searchResults,
+    response: checked.text,
+    displayResponse: restoreText(checked.text, vault),
+    sources,
+    citations: checked.citations,
+    invalidCitations: checked.invalid,
+    searchQuery,
+    promptTemplateId: prompt.id,
+    redaction,
+    suggestedQuestions,
+    displaySuggestedQuestions: suggestedQuestions.map((question) => restoreText(question, vault)),
+    toolCalls: prepared.toolCalls,
+    toolRedactions: Array.from(prepared.toolRedactions.values()),
+    cacheStatus,
+    usage: meter.entries,
   };
 }
 
+/**
+ * Answer cache key for the request, or null if its answer can't be shared
+ * Follow-ups depend on the conversation, and messages with personal details are
+ * about one member's case, so neither is cached. When the prompt tells the
+ * model who is asking, answers are only shared with members it describes the
+ * same way.
+ */
+async function answerCacheKey(prepared: PreparedRequest, llm: LlmProvider): Promise<AnswerCacheKey | null> {
+  if (!prepared.firstMessage || prepared.redaction.redactions.length > 0) {
+    return null;
+  }
+
+  const viewerValues = viewerPromptValues(prepared.viewer);
+  const audience = usedPromptVariables(prepared.prompt.body)
+    .filter((name): name is keyof typeof viewerValues => name in viewerValues)
+    .map((name) => `${name}=${viewerValues[name]}`);
+
+  return buildAnswerCacheKey(prepared.searchQuery.query, prepared.sources, prepared.prompt.id, llm.model, audience);
+}
+
+/**
+ * Serve a cached answer with the sources it was written from
+ */
+async function cachedResponse(
+  key: AnswerCacheKey | null,
+  prepared: PreparedRequest,
+  meter: UsageMeter
+): Promise<ChatbotResponse | null> {
+  const cached = key && (await findCachedAnswer(key));
+  if (!cached) {
+    return null;
+  }
+
+  prepared.sources = cached.sources;
+  return finishResponse(cached.answer, cached.suggestedQuestions, prepared, meter, AnswerCacheStatus.HIT);
+}
+
+/**
+ * Cache a generated answer unless it used lookups or is low confidence
+ */
+async function cacheResponse(key: AnswerCacheKey | null, response: ChatbotResponse): Promise<void> {
+  if (!key || response.toolCalls.length > 0 || assessAnswerConfidence(response.response, response.sources)) {
+    return;
+  }
+
+  await storeCachedAnswer(key, {
+    answer: response.response,
+    sources: response.sources,
+    citations: response.citations,
+    suggestedQuestions: response.suggestedQuestions,
+  });
+}
+
+/**
+ * Generate chatbot response using the configured model with RAG
+ * The model can call lookup tools before answering; see chatbot-tools. The
+ * answer comes with suggested follow-up questions. First questions may be
+ * answered from the answer cache instead. Every model call is recorded on the
+ * meter, including summaries, rewrites and suggestions.
+ */
+export async function generateChatbotResponse(
+  userId: string,
+  conversationId: string,
+  userMessage: string,
+  meter: UsageMeter = new UsageMeter()
+): Promise<ChatbotResponse> {
+  const llm = meter.wrap(getLlmProvider());
+  const prepared = await prepareChatbotRequest(userId, conversationId, userMessage, llm);
+
+  const cacheKey = await answerCacheKey(prepared, llm);
+  const cached = await cachedResponse(cacheKey, prepared, meter);
+  if (cached) {
+    return cached;
+  }
+
+  const texts: string[] = [];
+  for (let round = 0; ; round++) {
+    const completion = await llm.complete({
+      purpose: 'answer',
+      system: prepared.systemPrompt,
+      messages: prepared.messages,
+      tools: CHATBOT_TOOLS,
+    });
+    texts.push(completion.text);
+
+    if (completion.toolCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
+    await runToolRound(userId, prepared, completion);
+  }
+
+  const answer = joinRounds(texts);
+  const suggestions = await suggestFollowUpQuestions(prepared.redaction.text, answer, prepared.sources, llm);
+
+  const response = finishResponse(answer, suggestions, prepared, meter, cacheKey ? AnswerCacheStatus.MISS : null);
+  await cacheResponse(cacheKey, response);
+  return response;
+}
+
+/**
+ * Answer a single question from the given sources, outside any conversation
+ * Used by the evaluation harness so retrieval and generation can be scored separately.
+ */
+export async function answerStandaloneQuestion(
+  question: string,
+  sources: SearchResult[],
+  options: { template?: string; viewer?: DocumentViewer | null } = {}
+): Promise<string> {
+  const { text } = await getLlmProvider().complete({
+    purpose: 'answer',
+    system: buildChatbotSystemPrompt(sources, null, options),
+    messages: [{ role: 'user', content: question }],
+  });
+
+  return text;
+}
+
+/**
+ * Stream a chatbot response token by token
+ * Yields the retrieved sources first, then text deltas as the model produces them,
+ * with placeholders already restored, and a tool event before each lookup. Returns the complete response once the
+ * stream ends; its citations are validated only then, so the streamed text may
+ * still contain markers that the final response drops, and follow-up suggestions
+ * are only in the final response. Model usage is recorded
+ * on the meter as it happens, so cancelled streams can still be accounted for.
+ */
+export async function* streamChatbotResponse(
+  userId: string,
+  conversationId: string,
+  userMessage: string,
+  signal?: AbortSignal,
+  meter: UsageMeter = new UsageMeter()
+): AsyncGenerator<ChatbotStreamEvent, ChatbotResponse> {
+  const llm = meter.wrap(getLlmProvider());
+  const prepared = await prepareChatbotRequest(userId, conversationId, userMessage, llm);
+
+  // A cached answer arrives in one piece
+  const cacheKey = await answerCacheKey(prepared, llm);
+  const cached = await cachedResponse(cacheKey, prepared, meter);
+  if (cached) {
+    yield { type: 'sources', sources: cached.sources };
+    yield { type: 'token', text: cached.displayResponse };
+    return cached;
+  }
+
+  yield { type: 'sources', sources: prepared.sources };
+
+  const texts: string[] = [];
+  for (let round = 0; ; round++) {
+    const stream = llm.stream({
+      purpose: 'answer',
+      system: prepared.systemPrompt,
+      messages: prepared.messages,
+      tools: CHATBOT_TOOLS,
+      signal,
+    });
+
+    // Placeholders can be split across deltas; the vault grows with each round
+    const restorer = createStreamRestorer(prepared.vault);
+    // Text from an earlier round is separated the same way joinRounds does
+    let separator = texts.some((text) => text.trim()) ? '\n\n' : '';
+    let next = await stream.next();
+    while (!next.done) {
+      const text = restorer.push(next.value);
+      if (text) {
+        yield { type: 'token', text: separator + text };
+        separator = '';
+      }
+      next = await stream.next();
+    }
+
+    const rest = restorer.flush();
+    if (rest) {
+      yield { type: 'token', text: separator + rest };
+    }
+
+    const completion = next.value;
+    texts.push(completion.text);
+
+    if (completion.toolCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
+    for (const call of completion.toolCalls) {
+      yield { type: 'tool', name: call.name, label: TOOL_LABELS[call.name] ?? 'Looking this up' };
+    }
+    await runToolRound(userId, prepared, completion);
+  }
+
+  const answer = joinRounds(texts);
+  const suggestions = await suggestFollowUpQuestions(
+    prepared.redaction.text,
+    answer,
+    prepared.sources,
+    llm,
+    signal
+  );
+
+  const response = finishResponse(answer, suggestions, prepared, meter, cacheKey ? AnswerCacheStatus.MISS : null);
+  await cacheResponse(cacheKey, response);
+  return response;
+}
+
+/**
+ * Get a conversation if it belongs to the user
+ */
+export async function getUserConversation(userId: string, conversationId: string) {
+  const conversation = await prisma.chatbotConversation.findUnique({
+    where: { id: conversationId },
+  });
+
+  return conversation && conversation.userId === userId ? conversation : null;
+}
+
 /**
  * Create a new chatbot conversation
  */
@@ -137,33 +505,94 @@ export async function createConversation(userId: string, title?: string) {
   return prisma.chatbotConversation.create({
     data: {
       userId,
-      title: title || 'New Conversation',
+      title: title || DEFAULT_CONVERSATION_TITLE,
     },
   });
 }
 
 /**
  * Save messages to conversation
+ * Pass the redacted user message along with its redactions; the mapping is
+ * recorded against the user message for compliance review, as is the query
+ * the knowledge base was searched with. The answer records the most
+ * restricted visibility tier among its sources, how many sources were
+ * retrieved and, for the knowledge-gap report, whether it is low confidence.
+ * It also records the system prompt version that produced it, the follow-up
+ * questions suggested with it, whether it came from the answer cache and any
+ * lookups the model made; details redacted from lookup results are recorded
+ * against the answer.
  */
 export async function saveMessages(
   conversationId: string,
   userMessage: string,
   assistantMessage: string,
-  sources?: SearchResult[]
+  {
+    sources,
+    citations,
+    invalidCitations = [],
+    searchQuery,
+    promptTemplateId,
+    redactions = [],
+    suggestedQuestions = [],
+    cacheStatus = null,
+    toolCalls = [],
+    toolRedactions = [],
+  }: SavedMessageDetails = {}
 ) {
-  await prisma.chatbotMessage.createMany({
-    data: [
-      {
+  // Explicit timestamps keep the pair ordered when both are written in the same millisecond
+  const sentAt = new Date();
+  const answeredAt = new Date(sentAt.getTime() + 1);
+  const userMessageId = crypto.randomUUID();
+  const assistantMessageId = crypto.randomUUID();
+
+  const [savedUserMessage, savedAssistantMessage] = await prisma.$transaction([
+    prisma.chatbotMessage.create({
+      data: {
+        id: userMessageId,
         conversationId,
         role: 'USER',
         content: userMessage,
+        searchQuery: searchQuery ? { ...searchQuery } : undefined,
+        createdAt: sentAt,
       },
-      {
+    }),
+    prisma.chatbotMessage.create({
+      data: {
+        id: assistantMessageId,
         conversationId,
         role: 'ASSISTANT',
         content: assistantMessage,
-        sources: sources ? JSON.parse(JSON.stringify(sources)) : null,
+        sources: sources ? JSON.parse(JSON.stringify(sources)) : undefined,
+        visibilityTier: mostRestrictiveTier((sources ?? []).map((source) => source.visibilityTier)),
+        citations: citations ? JSON.parse(JSON.stringify(citations)) : undefined,
+        invalidCitations,
+        retrievalHits: sources ? sources.length : null,
+        lowConfidenceReason: sources ? assessAnswerConfidence(assistantMessage, sources) : null,
+        promptTemplateId,
+        suggestedQuestions,
+        cacheStatus,
+        toolCalls: toolCalls.length > 0 ? JSON.parse(JSON.stringify(toolCalls)) : undefined,
+        createdAt: answeredAt,
       },
-    ],
-  });
+    }),
+    prisma.chatbotRedaction.createMany({
+      data: [
+        ...redactions.map((entry) => ({ ...entry, messageId: userMessageId })),
+        ...toolRedactions.map((entry) => ({ ...entry, messageId: assistantMessageId })),
+      ].map(({ messageId, entityType, placeholder, originalValue }) => ({
+        conversationId,
+        messageId,
+        entityType,
+        placeholder,
+        originalValue,
+      })),
+    }),
+    // Bump the conversation so it sorts first in the history sidebar
+    prisma.chatbotConversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: answeredAt },
+    }),
+  ]);
+
+  return { userMessage: savedUserMessage, assistantMessage: savedAssistantMessage };
 }
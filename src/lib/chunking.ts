@@ -0,0 +1,271 @@
+/**
+ * Heading-aware chunking for training documents
+ *
+ * Documents are split into sections at detected headings, then each section
+ * is packed into chunks of at most `maxTokens`, breaking on paragraph and
+ * sentence boundaries. Each chunk after the first in a section starts with up
+ * to `overlapTokens` from the end of the previous one, cut at a sentence or
+ * word boundary, so facts spanning a boundary stay retrievable. A heading with
+ * no text of its own still gets a chunk, so documents that are only headings
+ * (e.g. a list of form names) are indexed.
+ */
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  overlapTokens?: number;
+}
+
+export interface DocumentChunk {
+  index: number;
+  headingPath: string[];
+  content: string;
+  startOffset: number; // Character offsets into the original document content
+  endOffset: number;
+  tokenCount: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface Section extends Span {
+  headingPath: string[];
+  heading: Span | null; // The heading line, for sections with no text of their own
+}
+
+// Bump when the chunking algorithm changes so documents are re-chunked
+export const CHUNKER_VERSION = 2;
+
+export const DEFAULT_CHUNK_OPTIONS: Required<ChunkOptions> = {
+  maxTokens: parseInt(process.env.CHUNK_MAX_TOKENS || '350'),
+  overlapTokens: parseInt(process.env.CHUNK_OVERLAP_TOKENS || '50'),
+};
+
+/**
+ * Approximate token count (roughly 4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Detect a heading line and return its nesting level and text
+ */
+function parseHeading(line: string): { level: number; text: string } | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 100) return null;
+
+  const markdown = trimmed.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+  if (markdown) {
+    return { level: markdown[1].length, text: markdown[2] };
+  }
+
+  const statute = trimmed.match(
+    /^((?:[Ss]ection|[Aa]rticle|[Cc]hapter|[Pp]art|SECTION|ARTICLE|CHAPTER|PART|§)\s*(?:\d[\w.()-]*|[IVXLC]+\b).*?)[:.]?$/
+  );
+  if (statute && trimmed.length <= 80) {
+    return { level: 2, text: statute[1] };
+  }
+
+  // "2.1 Interactive Process" - numbered headings, not numbered list items
+  const numbered = trimmed.match(/^(\d+(?:\.\d+)*)[.)]?\s+([A-Z][^.!?:]{1,70})$/);
+  if (numbered && trimmed.length <= 80) {
+    return { level: numbered[1].split('.').length + 1, text: `${numbered[1]} ${numbered[2]}` };
+  }
+
+  if (trimmed.length <= 80 && /[A-Z]{3,}/.test(trimmed) && !/[a-z]/.test(trimmed)) {
+    return { level: 1, text: trimmed };
+  }
+
+  // "Key Points:" - short label lines introducing a block
+  const label = trimmed.match(/^([A-Z][\w\s/&'()-]{1,58}):$/);
+  if (label) {
+    return { level: 4, text: label[1] };
+  }
+
+  return null;
+}
+
+/**
+ * Split document content into sections at headings
+ */
+function splitSections(content: string): Section[] {
+  const sections: Section[] = [];
+  const stack: { level: number; text: string }[] = [];
+  let current: Section = { start: 0, end: 0, headingPath: [], heading: null };
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const lineEnd = offset + line.length;
+    const heading = parseHeading(line);
+
+    if (heading) {
+      current.end = offset;
+      sections.push(current);
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+        stack.pop();
+      }
+      stack.push(heading);
+      current = {
+        start: Math.min(lineEnd + 1, content.length),
+        end: content.length,
+        headingPath: stack.map((h) => h.text),
+        heading: { start: offset, end: lineEnd },
+      };
+    }
+
+    offset = lineEnd + 1;
+  }
+
+  current.end = content.length;
+  sections.push(current);
+
+  // Keep headings without text unless a subsection follows to carry their path
+  return sections.filter((section, idx) => {
+    if (content.slice(section.start, section.end).trim().length > 0) return true;
+    if (!section.heading) return false;
+
+    const next = sections[idx + 1];
+    const hasSubsection =
+      next !== undefined &&
+      next.headingPath.length > section.headingPath.length &&
+      section.headingPath.every((text, level) => next.headingPath[level] === text);
+    return !hasSubsection;
+  });
+}
+
+/**
+ * Trim whitespace from a span without losing its position in the content
+ */
+function trimSpan(content: string, span: Span): Span | null {
+  let { start, end } = span;
+  while (start < end && /\s/.test(content[start])) start++;
+  while (end > start && /\s/.test(content[end - 1])) end--;
+  return start < end ? { start, end } : null;
+}
+
+/**
+ * Where to start the overlap carried from a chunk ending at `end`: the first
+ * sentence (or line) start at or after `from`, else the first word start
+ */
+function overlapStart(content: string, from: number, end: number): number | null {
+  const tail = content.slice(from, end);
+  const boundary = tail.match(/(?:[.!?]\s+|\n\s*)(?=\S)/) ?? tail.match(/\s+(?=\S)/);
+  if (!boundary || boundary.index === undefined) return null;
+
+  const start = from + boundary.index + boundary[0].length;
+  return start < end ? start : null;
+}
+
+/**
+ * Break a section into paragraph, sentence or word-window units that fit in maxTokens
+ */
+function splitUnits(content: string, section: Span, maxTokens: number): Span[] {
+  const units: Span[] = [];
+  const maxChars = maxTokens * 4;
+  const text = content.slice(section.start, section.end);
+
+  const paragraphs: Span[] = [];
+  const paragraphBreak = /\n\s*\n/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphBreak.exec(text)) !== null) {
+    paragraphs.push({ start: section.start + last, end: section.start + match.index });
+    last = match.index + match[0].length;
+  }
+  paragraphs.push({ start: section.start + last, end: section.end });
+
+  for (const paragraph of paragraphs) {
+    const trimmed = trimSpan(content, paragraph);
+    if (!trimmed) continue;
+
+    if (trimmed.end - trimmed.start <= maxChars) {
+      units.push(trimmed);
+      continue;
+    }
+
+    const sentence = /[^.!?\n]+(?:[.!?]+|\n|$)/g;
+    const paragraphText = content.slice(trimmed.start, trimmed.end);
+    while ((match = sentence.exec(paragraphText)) !== null) {
+      if (match[0].length === 0) {
+        sentence.lastIndex++;
+        continue;
+      }
+      const span = trimSpan(content, {
+        start: trimmed.start + match.index,
+        end: trimmed.start + match.index + match[0].length,
+      });
+      if (!span) continue;
+
+      // Hard-wrap run-on sentences at whitespace
+      let start = span.start;
+      while (span.end - start > maxChars) {
+        let cut = content.lastIndexOf(' ', start + maxChars);
+        if (cut <= start) cut = start + maxChars;
+        units.push({ start, end: cut });
+        start = cut;
+        while (start < span.end && /\s/.test(content[start])) start++;
+      }
+      if (start < span.end) units.push({ start, end: span.end });
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Split a document into retrievable chunks with heading and position metadata
+ */
+export function chunkDocument(content: string, options: ChunkOptions = {}): DocumentChunk[] {
+  const { maxTokens, overlapTokens } = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+  const chunks: DocumentChunk[] = [];
+
+  const maxChars = maxTokens * 4;
+  const overlapChars = overlapTokens * 4;
+
+  for (const section of splitSections(content)) {
+    const headingOnly = section.heading ? trimSpan(content, section.heading) : null;
+    // Units leave room for the overlap, so any unit can follow a carried tail
+    const units = splitUnits(content, section, Math.max(1, maxTokens - overlapTokens));
+    if (units.length === 0 && headingOnly) {
+      units.push(headingOnly);
+    }
+
+    let first = 0;
+    let carried: number | null = null; // Start of the overlap from the previous chunk
+
+    while (first < units.length) {
+      const startOffset = carried ?? units[first].start;
+      let last = first;
+      while (
+        last + 1 < units.length &&
+        estimateTokens(content.slice(startOffset, units[last + 1].end)) <= maxTokens
+      ) {
+        last++;
+      }
+
+      const endOffset = units[last].end;
+      const chunkContent = content.slice(startOffset, endOffset);
+
+      chunks.push({
+        index: chunks.length,
+        headingPath: section.headingPath,
+        content: chunkContent,
+        startOffset,
+        endOffset,
+        tokenCount: estimateTokens(chunkContent),
+      });
+
+      if (last + 1 >= units.length) break;
+
+      // Carry the end of this chunk into the next, as long as the next unit still fits
+      first = last + 1;
+      const from = Math.max(startOffset, endOffset - overlapChars, units[first].end - maxChars);
+      carried = overlapChars > 0 && from < endOffset ? overlapStart(content, from, endOffset) : null;
+    }
+  }
+
+  return chunks;
+}
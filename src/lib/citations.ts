@@ -0,0 +1,109 @@
+/**
+ * Inline citations in chatbot answers
+ *
+ * The model cites retrieved sources inline with markers such as [Source 2] or
+ * [Source 1, 3], numbered as in the system prompt. Before an answer is stored
+ * the markers are checked against the sources actually retrieved: numbers that
+ * don't match a source are removed and reported. Safe to import from client
+ * components for rendering.
+ */
+
+// [Source 2] or [Source 1, 3]
+const CITATION_MARKER = /\s?\[Source (\d+(?:\s*,\s*\d+)*)\]/g;
+
+export interface CitableSource {
+  documentId: string;
+  chunkId: string;
+  title: string;
+  section: string | null;
+  type: string;
+  sourcePostId?: string | null; // Older stored sources don't have it
+}
+
+export interface Citation {
+  number: number; // As in the marker, 1-based position in the sources
+  documentId: string;
+  chunkId: string;
+  title: string;
+  section: string | null;
+  type: string;
+  href: string;
+}
+
+export interface CitationCheck {
+  text: string; // Answer with invalid markers removed
+  citations: Citation[]; // In order of first citation
+  invalid: number[]; // Marker numbers that matched no source
+}
+
+export type CitationSegment = { type: 'text'; text: string } | { type: 'citation'; numbers: number[] };
+
+function parseNumbers(list: string): number[] {
+  return list.split(',').map((number) => parseInt(number.trim()));
+}
+
+/**
+ * Where a cited source opens: the forum post it came from, or the training
+ * document scrolled to the cited chunk
+ */
+export function citationHref(source: CitableSource): string {
+  return source.sourcePostId
+    ? `/forum/posts/${source.sourcePostId}`
+    : `/chatbot/documents/${source.documentId}?chunk=${source.chunkId}`;
+}
+
+/**
+ * Check an answer's citation markers against the retrieved sources
+ */
+export function validateCitations(text: string, sources: CitableSource[]): CitationCheck {
+  const cited = new Map<number, Citation>();
+  const invalid = new Set<number>();
+
+  const checked = text.replace(CITATION_MARKER, (marker, list: string) => {
+    const numbers = parseNumbers(list);
+    const valid = numbers.filter((number) => number >= 1 && number <= sources.length);
+    numbers.filter((number) => !valid.includes(number)).forEach((number) => invalid.add(number));
+
+    for (const number of valid) {
+      if (cited.has(number)) continue;
+      const source = sources[number - 1];
+      cited.set(number, {
+        number,
+        documentId: source.documentId,
+        chunkId: source.chunkId,
+        title: source.title,
+        section: source.section,
+        type: source.type,
+        href: citationHref(source),
+      });
+    }
+
+    if (valid.length === 0) return '';
+    const leadingSpace = marker.startsWith('[') ? '' : marker[0];
+    return `${leadingSpace}[Source ${Array.from(new Set(valid)).join(', ')}]`;
+  });
+
+  return { text: checked, citations: Array.from(cited.values()), invalid: Array.from(invalid) };
+}
+
+/**
+ * Split an answer into text and citation markers for rendering
+ */
+export function splitCitations(text: string): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(/\[Source (\d+(?:\s*,\s*\d+)*)\]/g)) {
+    if (match.index! > last) {
+      segments.push({ type: 'text', text: text.slice(last, match.index) });
+    }
+    segments.push({ type: 'citation', numbers: parseNumbers(match[1]) });
+    last = match.index! + match[0].length;
+  }
+
+  if (last < text.length) {
+    segments.push({ type: 'text', text: text.slice(last) });
+  }
+
+  return segments;
+}
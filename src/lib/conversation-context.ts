@@ -0,0 +1,162 @@
+/**
+ * Conversation context management for the chatbot
+ *
+ * The most recent turns are always sent verbatim. When the history no longer
+ * fits in the token budget, the oldest unsummarized turns are folded into a
+ * running summary stored on the conversation, so each message is summarized
+ * at most once no matter how long the thread grows.
+ */
+
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { estimateTokens } from './chunking';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationContext {
+  summary: string | null;
+  messages: ChatMessage[];
+}
+
+/**
+ * Merge the previous summary with older turns into a new summary
+ */
+export type ConversationSummarizer = (
+  previousSummary: string | null,
+  messages: ChatMessage[],
+  maxTokens: number
+) => Promise<string>;
+
+export interface ContextOptions {
+  tokenBudget?: number;
+  summaryMaxTokens?: number;
+  minRecentMessages?: number;
+}
+
+export const DEFAULT_CONTEXT_OPTIONS: Required<ContextOptions> = {
+  tokenBudget: parseInt(process.env.CHATBOT_CONTEXT_TOKEN_BUDGET || '4000'),
+  summaryMaxTokens: parseInt(process.env.CHATBOT_SUMMARY_MAX_TOKENS || '600'),
+  minRecentMessages: 2, // Always keep the last exchange verbatim
+};
+
+/**
+ * Format turns as a plain transcript for summarization
+ */
+export function formatTranscript(messages: ChatMessage[]): string {
+  return messages
+    .map((msg) => `${msg.role === 'user' ? 'Member' : 'Assistant'}: ${msg.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Split history into turns to summarize and recent turns to keep verbatim
+ * Recent turns are taken newest-first until the budget is spent, and the kept
+ * window always starts on a user message so roles keep alternating.
+ */
+export function selectRecentMessages<T extends ChatMessage>(
+  messages: T[],
+  tokenBudget: number,
+  minRecentMessages: number
+): { older: T[]; recent: T[] } {
+  let start = messages.length;
+  let tokens = 0;
+
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content);
+    const keptCount = messages.length - start;
+    if (keptCount >= minRecentMessages && tokens + cost > tokenBudget) break;
+    tokens += cost;
+    start--;
+  }
+
+  while (start < messages.length && messages[start].role !== 'user') {
+    start++;
+  }
+
+  return { older: messages.slice(0, start), recent: messages.slice(start) };
+}
+
+/**
+ * Build the history to send with the next message
+ * Updates the stored summary when older turns have to be compressed. If
+ * summarization fails the overflow is dropped for this request only and
+ * retried on the next message.
+ */
+export async function buildConversationContext(
+  conversationId: string,
+  summarize: ConversationSummarizer,
+  options: ContextOptions = {}
+): Promise<ConversationContext> {
+  const { tokenBudget, summaryMaxTokens, minRecentMessages } = {
+    ...DEFAULT_CONTEXT_OPTIONS,
+    ...options,
+  };
+
+  const conversation = await prisma.chatbotConversation.findUnique({
+    where: { id: conversationId },
+    select: { summary: true, summarizedThroughAt: true },
+  });
+
+  if (!conversation) {
+    throw new Error('Conversation not found');
+  }
+
+  const messages = await prisma.chatbotMessage.findMany({
+    where: {
+      conversationId,
+      ...(conversation.summarizedThroughAt && {
+        createdAt: { gt: conversation.summarizedThroughAt },
+      }),
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { role: true, content: true, createdAt: true },
+  });
+
+  const history = messages.map((msg) => ({
+    role: msg.role === 'USER' ? ('user' as const) : ('assistant' as const),
+    content: msg.content,
+    createdAt: msg.createdAt,
+  }));
+
+  let summary = conversation.summary;
+  const summaryTokens = summary ? estimateTokens(summary) : 0;
+  const { older, recent } = selectRecentMessages(
+    history,
+    Math.max(tokenBudget - summaryTokens, 0),
+    minRecentMessages
+  );
+
+  if (older.length > 0) {
+    try {
+      summary = await summarize(
+        summary,
+        older.map(({ role, content }) => ({ role, content })),
+        summaryMaxTokens
+      );
+
+      await prisma.chatbotConversation.update({
+        where: { id: conversationId },
+        data: {
+          summary,
+          summarizedThroughAt: older[older.length - 1].createdAt,
+        },
+      });
+
+      logger.info('Summarized conversation history', {
+        conversationId,
+        summarizedMessages: older.length,
+        keptMessages: recent.length,
+      });
+    } catch (error) {
+      logger.error('Failed to summarize conversation history', error, { conversationId });
+    }
+  }
+
+  return {
+    summary,
+    messages: recent.map(({ role, content }) => ({ role, content })),
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Chatbot conversation export and forum drafts
+ *
+ * A conversation can be exported as Markdown or as printable HTML (printed or
+ * saved as PDF from the browser), with timestamps and each answer's sources,
+ * e.g. to attach to a case file. Members can also turn a conversation into a
+ * draft forum post to ask the community about an answer.
+ *
+ * Messages are stored with personal and medical details replaced by
+ * placeholders. Exports restore them unless a redacted copy is asked for;
+ * forum drafts are redacted unless the member opts out.
+ */
+
+import { UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { sanitizeInput } from './security';
+import { loadRedactionVault, RedactionVault, restoreText } from './redaction';
+import { DEFAULT_CONVERSATION_TITLE, titleFromQuestion } from './conversation-titles';
+
+// Roles that can export a member's conversation once it is part of an escalation
+const CASE_FILE_ROLES: UserRole[] = [UserRole.LIAISON, UserRole.LEGAL, UserRole.ADMIN];
+
+const MAX_DRAFT_QUESTIONS = 5;
+const MAX_DRAFT_ANSWER_LENGTH = 1500;
+
+export interface ExportedSource {
+  number: number;
+  title: string;
+  section: string | null;
+  type: string;
+}
+
+export interface ExportedMessage {
+  role: 'USER' | 'ASSISTANT';
+  content: string;
+  createdAt: Date;
+  sources: ExportedSource[];
+  cached: boolean;
+}
+
+export interface ConversationExport {
+  id: string;
+  title: string;
+  memberName: string;
+  createdAt: Date;
+  exportedAt: Date;
+  redacted: boolean;
+  messages: ExportedMessage[];
+}
+
+export interface ForumDraft {
+  title: string;
+  content: string;
+}
+
+/**
+ * Whether a user may export a conversation: its owner, or a liaison, counsel
+ * or admin when it was escalated
+ */
+export async function canExportConversation(
+  user: { id: string; role: UserRole },
+  conversation: { id: string; userId: string | null }
+): Promise<boolean> {
+  if (conversation.userId === user.id) {
+    return true;
+  }
+  if (!CASE_FILE_ROLES.includes(user.role)) {
+    return false;
+  }
+
+  const escalations = await prisma.escalation.count({
+    where: { chatbotConversationId: conversation.id },
+  });
+  return escalations > 0;
+}
+
+function toSources(value: unknown): ExportedSource[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.map((source, idx) => ({
+    number: idx + 1,
+    title: String(source?.title ?? 'Untitled source'),
+    section: source?.section ? String(source.section) : null,
+    type: String(source?.type ?? ''),
+  }));
+}
+
+/**
+ * Load a conversation for export, with details restored unless redacted
+ */
+export async function loadConversationExport(
+  conversationId: string,
+  { redacted = false }: { redacted?: boolean } = {}
+): Promise<ConversationExport | null> {
+  const conversation = await prisma.chatbotConversation.findUnique({
+    where: { id: conversationId },
+    include: {
+      user: { select: { fullName: true } },
+      messages: {
+        select: { role: true, content: true, createdAt: true, sources: true, cacheStatus: true },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!conversation) {
+    return null;
+  }
+
+  const vault: RedactionVault = redacted ? new Map() : await loadRedactionVault(conversationId);
+
+  return {
+    id: conversation.id,
+    title: conversation.title || DEFAULT_CONVERSATION_TITLE,
+    memberName: conversation.user?.fullName ?? 'Anonymized member',
+    createdAt: conversation.createdAt,
+    exportedAt: new Date(),
+    redacted,
+    messages: conversation.messages.map((message) => ({
+      role: message.role,
+      content: restoreText(message.content, vault),
+      createdAt: message.createdAt,
+      sources: message.role === 'ASSISTANT' ? toSources(message.sources) : [],
+      cached: message.cacheStatus === 'HIT',
+    })),
+  };
+}
+
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function sourceLabel(source: ExportedSource): string {
+  const label = source.section ? `${source.title} > ${source.section}` : source.title;
+  return source.type ? `${label} (${source.type})` : label;
+}
+
+const REDACTION_NOTE = 'Personal and medical details are replaced with placeholders such as [PERSON_1].';
+
+/**
+ * Transcript as Markdown
+ */
+export function conversationToMarkdown(data: ConversationExport): string {
+  const lines = [
+    `# ${data.title}`,
+    '',
+    `- Member: ${data.memberName}`,
+    `- Started: ${formatTimestamp(data.createdAt)}`,
+    `- Exported: ${formatTimestamp(data.exportedAt)}`,
+    ...(data.redacted ? [`- ${REDACTION_NOTE}`] : []),
+    '',
+    'Answers are generated by the RTW assistant and are not legal advice.',
+  ];
+
+  for (const message of data.messages) {
+    const speaker = message.role === 'USER' ? 'Member' : 'Assistant';
+    lines.push('', `## ${speaker}, ${formatTimestamp(message.createdAt)}${message.cached ? ' (cached answer)' : ''}`);
+    lines.push('', message.content.trim());
+
+    if (message.sources.length > 0) {
+      lines.push('', 'Sources:', '');
+      message.sources.forEach((source) => lines.push(`${source.number}. ${sourceLabel(source)}`));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Transcript as a standalone HTML page laid out for printing
+ */
+export function conversationToHtml(data: ConversationExport): string {
+  const messages = data.messages
+    .map((message) => {
+      const speaker = message.role === 'USER' ? 'Member' : 'Assistant';
+      const sources =
+        message.sources.length > 0
+          ? `<div class="sources"><strong>Sources</strong><ol>${message.sources
+              .map((source) => `<li>${sanitizeInput(sourceLabel(source))}</li>`)
+              .join('')}</ol></div>`
+          : '';
+
+      return `
+      <div class="message ${message.role === 'USER' ? 'member' : 'assistant'}">
+        <div class="meta">${speaker} &middot; ${formatTimestamp(message.createdAt)}${message.cached ? ' &middot; cached answer' : ''}</div>
+        <div class="content">${sanitizeInput(message.content)}</div>
+        ${sources}
+      </div>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${sanitizeInput(data.title)}</title>
+    <style>
+      body { font-family: Arial, sans-serif; line-height: 1.5; color: #111827; max-width: 800px; margin: 0 auto; padding: 24px; }
+      h1 { font-size: 22px; margin-bottom: 4px; }
+      .details { color: #4b5563; font-size: 13px; margin-bottom: 24px; }
+      .print-hint { background: #eff6ff; border: 1px solid #bfdbfe; color: #1e40af; padding: 8px 12px; border-radius: 4px; font-size: 13px; margin-bottom: 24px; }
+      .message { border-top: 1px solid #e5e7eb; padding: 12px 0; page-break-inside: avoid; }
+      .meta { font-size: 12px; font-weight: bold; color: #6b7280; margin-bottom: 4px; }
+      .member .meta { color: #1d4ed8; }
+      .content { white-space: pre-wrap; }
+      .sources { font-size: 12px; color: #374151; margin-top: 8px; }
+      .sources ol { margin: 4px 0 0; padding-left: 20px; }
+      @media print { .print-hint { display: none; } body { padding: 0; } }
+    </style>
+  </head>
+  <body>
+    <div class="print-hint">Use your browser's Print command to print this transcript or save it as a PDF.</div>
+    <h1>${sanitizeInput(data.title)}</h1>
+    <div class="details">
+      Member: ${sanitizeInput(data.memberName)}<br>
+      Started: ${formatTimestamp(data.createdAt)}<br>
+      Exported: ${formatTimestamp(data.exportedAt)}<br>
+      ${data.redacted ? `${REDACTION_NOTE}<br>` : ''}
+      Answers are generated by the RTW assistant and are not legal advice.
+    </div>
+    ${messages}
+  </body>
+</html>
+`;
+}
+
+/**
+ * File name for an export, from the conversation title
+ */
+export function exportFileName(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'conversation'}.${extension}`;
+}
+
+/**
+ * Draft forum post summarizing a conversation, for the member to edit
+ * Lists the member's questions and quotes the latest answer with the sources
+ * it drew on, leaving room for what they want to ask the community.
+ */
+export function buildForumDraft(data: ConversationExport): ForumDraft {
+  const questions = data.messages.filter((message) => message.role === 'USER');
+  const answer = [...data.messages].reverse().find((message) => message.role === 'ASSISTANT');
+
+  const title =
+    data.title !== DEFAULT_CONVERSATION_TITLE ? data.title : titleFromQuestion(questions[0]?.content ?? '');
+
+  const answerText = answer
+    ? answer.content.replace(/\s*\[Source \d+(?:,\s*\d+)*\]/g, '').trim()
+    : '';
+  const quoted =
+    answerText.length > MAX_DRAFT_ANSWER_LENGTH ? `${answerText.slice(0, MAX_DRAFT_ANSWER_LENGTH)}...` : answerText;
+
+  const sections = [
+    questions.length === 1
+      ? `I asked the RTW assistant:\n${questions[0].content.trim()}`
+      : `I asked the RTW assistant:\n${questions
+          .slice(-MAX_DRAFT_QUESTIONS)
+          .map((message) => `- ${message.content.trim()}`)
+          .join('\n')}`,
+    quoted && `It answered:\n${quoted}`,
+    answer && answer.sources.length > 0 &&
+      `Sources it drew on:\n${answer.sources.map((source) => `- ${sourceLabel(source)}`).join('\n')}`,
+    'My question for the community:\n',
+  ];
+
+  return {
+    title: (title || 'Question about a chatbot answer').slice(0, 200),
+    content: sections.filter(Boolean).join('\n\n'),
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Automatic conversation titles
+ *
+ * Conversations start as "New Conversation". Once the first exchange is saved
+ * the model writes a short title from it, so the history sidebar says what each
+ * thread was about. A title the member has set is never replaced.
+ */
+
+import { prisma } from './prisma';
+import { getLlmProvider, LlmProvider } from './llm';
+import { logger } from './logger';
+import { formatTranscript } from './conversation-context';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New Conversation';
+
+const MAX_TITLE_LENGTH = 100; // Same limit as renaming
+const MAX_TITLE_WORDS = 8;
+
+const TITLE_SYSTEM_PROMPT = `You write titles for conversations between an SD member and the RTW program assistant. Write a title of at most six words that says what the member asked about, e.g. "Bridge assignment after shoulder injury" or "FEHA interactive process timeline". Never include names or placeholders such as [PERSON_1]. Reply with the title only.`;
+
+/**
+ * Tidy a model-written title: no quotes, labels, placeholders or trailing punctuation
+ */
+export function cleanTitle(text: string): string {
+  const title = text
+    .trim()
+    .split('\n')[0]
+    .replace(/^title:\s*/i, '')
+    .replace(/\[[A-Z_]+_\d+\]/g, '')
+    .replace(/^["'*\s]+|["'*\s]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.,;:!?-]+$/, '');
+
+  const words = title.split(' ');
+  const short = words.length > MAX_TITLE_WORDS ? words.slice(0, MAX_TITLE_WORDS).join(' ') : title;
+  return short.slice(0, MAX_TITLE_LENGTH).trim();
+}
+
+/**
+ * Title from the opening words of the question, when the model can't write one
+ */
+export function titleFromQuestion(question: string): string {
+  const title = cleanTitle(question.split(/(?<=[.?!])\s/)[0]);
+  return title ? title.charAt(0).toUpperCase() + title.slice(1) : '';
+}
+
+/**
+ * Ask the model for a title, or an empty string if it fails
+ */
+async function writeTitle(question: string, answer: string, llm: LlmProvider): Promise<string> {
+  try {
+    const { text } = await llm.complete({
+      purpose: 'title',
+      maxTokens: 30,
+      temperature: 0,
+      system: TITLE_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: formatTranscript([
+            { role: 'user', content: question },
+            { role: 'assistant', content: answer.slice(0, 2000) },
+          ]),
+        },
+      ],
+    });
+    return cleanTitle(text);
+  } catch (error) {
+    logger.error('Conversation title generation failed, using the question', error);
+    return '';
+  }
+}
+
+/**
+ * Title a conversation from its first exchange, if it still has the default title
+ * Pass the question and answer as stored (redacted). Returns the new title, or
+ * null if the conversation was left as it was. Never throws, since the answer
+ * has already been saved.
+ */
+export async function titleConversation(
+  conversationId: string,
+  question: string,
+  answer: string,
+  llm: LlmProvider = getLlmProvider()
+): Promise<string | null> {
+  try {
+    const conversation = await prisma.chatbotConversation.findUnique({
+      where: { id: conversationId },
+      select: { title: true },
+    });
+    if (!conversation || conversation.title !== DEFAULT_CONVERSATION_TITLE) {
+      return null;
+    }
+
+    const title = (await writeTitle(question, answer, llm)) || titleFromQuestion(question);
+    if (!title) {
+      return null;
+    }
+
+    // The member may have renamed the conversation in the meantime
+    const { count } = await prisma.chatbotConversation.updateMany({
+      where: { id: conversationId, title: DEFAULT_CONVERSATION_TITLE },
+      data: { title },
+    });
+
+    return count > 0 ? title : null;
+  } catch (error) {
+    logger.error('Failed to title conversation', error, { conversationId });
+    return null;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Local text extraction for uploaded training documents
+ *
+ * PDFs are read with pdf-parse and Word documents with mammoth, both in
+ * process, so uploaded files never leave the server.
+ */
+
+import crypto from 'crypto';
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+import mammoth from 'mammoth';
+import { ValidationError } from './errors';
+import { validateFileUpload } from './security';
+
+interface SupportedFormat {
+  mimeType: string;
+  // Types browsers report for the format; Word files are often sent without one
+  acceptedTypes: string[];
+  extract(data: Buffer): Promise<string>;
+  matches(data: Buffer): boolean;
+}
+
+export interface ExtractedFile {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  data: Buffer;
+  text: string;
+}
+
+export const MAX_UPLOAD_SIZE = parseInt(process.env.TRAINING_UPLOAD_MAX_BYTES || `${10 * 1024 * 1024}`);
+
+const FORMATS: Record<string, SupportedFormat> = {
+  '.pdf': {
+    mimeType: 'application/pdf',
+    acceptedTypes: ['application/pdf'],
+    matches: (data) => data.subarray(0, 5).toString('latin1') === '%PDF-',
+    extract: async (data) => (await pdfParse(data)).text,
+  },
+  '.docx': {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    acceptedTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/octet-stream',
+      '',
+    ],
+    // DOCX files are ZIP archives
+    matches: (data) => data.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])),
+    extract: async (data) => (await mammoth.extractRawText({ buffer: data })).value,
+  },
+  '.txt': {
+    mimeType: 'text/plain',
+    acceptedTypes: ['text/plain', ''],
+    matches: (data) => !data.includes(0),
+    extract: async (data) => new TextDecoder('utf-8', { fatal: true }).decode(data),
+  },
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(FORMATS);
+
+/**
+ * Tidy extracted text so headings and paragraphs survive chunking
+ */
+export function normalizeExtractedText(text: string): string {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\f/g, '\n\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Validate an uploaded file and extract its text
+ * @throws ValidationError describing why the file can't be used
+ */
+export async function extractUploadedFile(file: File): Promise<ExtractedFile> {
+  const extension = '.' + (file.name.split('.').pop()?.toLowerCase() || '');
+  const format = FORMATS[extension];
+
+  if (!format) {
+    throw new ValidationError(`Unsupported file type. Upload ${SUPPORTED_EXTENSIONS.join(', ')} files.`);
+  }
+
+  const validation = validateFileUpload(file, {
+    maxSize: MAX_UPLOAD_SIZE,
+    allowedTypes: format.acceptedTypes,
+    allowedExtensions: SUPPORTED_EXTENSIONS,
+  });
+
+  if (!validation.valid) {
+    throw new ValidationError(validation.error || 'Invalid file');
+  }
+
+  const data = Buffer.from(await file.arrayBuffer());
+
+  if (data.length === 0) {
+    throw new ValidationError('File is empty');
+  }
+
+  // Don't trust the extension alone
+  if (!format.matches(data)) {
+    throw new ValidationError(`File content does not look like a ${extension} file`);
+  }
+
+  let text: string;
+  try {
+    text = normalizeExtractedText(await format.extract(data));
+  } catch (error) {
+    throw new ValidationError(
+      `Could not read ${extension} file: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+
+  if (text.length < 10) {
+    throw new ValidationError(
+      extension === '.pdf'
+        ? 'No text found. Scanned PDFs need OCR before they can be uploaded.'
+        : 'No text found in file'
+    );
+  }
+
+  return {
+    fileName: file.name,
+    mimeType: format.mimeType,
+    size: data.length,
+    sha256: crypto.createHash('sha256').update(data).digest('hex'),
+    data,
+    text,
+  };
+}
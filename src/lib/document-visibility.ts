@@ -0,0 +1,77 @@
+/**
+ * Who may retrieve a training document
+ *
+ * Documents can be limited to user roles, departments, or both. Empty lists
+ * mean no restriction; when both are set the user must match both. Admins
+ * see every document. Department names are compared case-insensitively.
+ */
+
+import { UserRole, VisibilityTier } from '@prisma/client';
+import { prisma } from './prisma';
+
+export interface DocumentViewer {
+  role: UserRole;
+  department: string | null;
+}
+
+export interface DocumentVisibility {
+  visibleToRoles: UserRole[];
+  visibleToDepartments: string[];
+}
+
+// Least to most restricted
+const TIER_ORDER: VisibilityTier[] = [
+  VisibilityTier.PUBLIC,
+  VisibilityTier.DEPARTMENT,
+  VisibilityTier.ROLE,
+  VisibilityTier.ROLE_AND_DEPARTMENT,
+];
+
+/**
+ * Visibility tier of a document from its restrictions
+ */
+export function visibilityTier(document: DocumentVisibility): VisibilityTier {
+  const byRole = document.visibleToRoles.length > 0;
+  const byDepartment = document.visibleToDepartments.length > 0;
+
+  if (byRole && byDepartment) return VisibilityTier.ROLE_AND_DEPARTMENT;
+  if (byRole) return VisibilityTier.ROLE;
+  if (byDepartment) return VisibilityTier.DEPARTMENT;
+  return VisibilityTier.PUBLIC;
+}
+
+/**
+ * Most restricted of the given tiers, or null when there are none
+ */
+export function mostRestrictiveTier(tiers: VisibilityTier[]): VisibilityTier | null {
+  if (tiers.length === 0) return null;
+  return tiers.reduce((most, tier) => (TIER_ORDER.indexOf(tier) > TIER_ORDER.indexOf(most) ? tier : most));
+}
+
+/**
+ * Check whether a user may see a document
+ */
+export function canViewDocument(viewer: DocumentViewer | null, document: DocumentVisibility): boolean {
+  if (viewer?.role === UserRole.ADMIN) return true;
+
+  const roleAllowed =
+    document.visibleToRoles.length === 0 || (viewer !== null && document.visibleToRoles.includes(viewer.role));
+
+  const department = viewer?.department?.trim().toLowerCase();
+  const departmentAllowed =
+    document.visibleToDepartments.length === 0 ||
+    (Boolean(department) &&
+      document.visibleToDepartments.some((allowed) => allowed.trim().toLowerCase() === department));
+
+  return roleAllowed && departmentAllowed;
+}
+
+/**
+ * Load the role and department that document visibility is checked against
+ */
+export async function getDocumentViewer(userId: string): Promise<DocumentViewer | null> {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, department: true },
+  });
+}
@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import { sanitizeInput } from './security';
 
 const transporter = nodemailer.createTransport({
   host: process.env.SMTP_HOST,
@@ -55,7 +56,7 @@ export function escalationNotificationEmail(params: {
       </ul>
 
       <h3>Description:</h3>
-      <p>${params.description}</p>
+      <p>${sanitizeInput(params.description)}</p>
 
       <p>
         <a href="${params.escalationUrl}" style="background-color: #2563eb; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">
@@ -181,6 +182,53 @@ SIA RTW Portal
   };
 }
 
+export function knowledgeGapAssignedEmail(params: {
+  recipientName: string;
+  assignerName: string;
+  title: string;
+  note?: string;
+  questions: string[];
+}) {
+  // Questions come from members, so escape them for the HTML version
+  const questionItems = params.questions.map((question) => `<li>${sanitizeInput(question)}</li>`).join('');
+
+  return {
+    subject: `Knowledge Gap Assigned: ${params.title}`,
+    html: `
+      <h2>Knowledge Gap Assigned</h2>
+      <p>Hello ${params.recipientName},</p>
+      <p>${params.assignerName} has asked you to write training material for questions the RTW chatbot could not answer.</p>
+
+      <h3>${sanitizeInput(params.title)}</h3>
+      ${params.note ? `<p>${sanitizeInput(params.note)}</p>` : ''}
+
+      <h3>Questions asked (${params.questions.length}):</h3>
+      <ul>${questionItems}</ul>
+
+      <p>Please send the finished material to an administrator so it can be added to the knowledge base.</p>
+
+      <p>Best regards,<br>SIA RTW Portal</p>
+    `,
+    text: `
+Knowledge Gap Assigned
+
+Hello ${params.recipientName},
+
+${params.assignerName} has asked you to write training material for questions the RTW chatbot could not answer.
+
+${params.title}
+${params.note ? `\n${params.note}\n` : ''}
+Questions asked (${params.questions.length}):
+${params.questions.map((question) => `- ${question}`).join('\n')}
+
+Please send the finished material to an administrator so it can be added to the knowledge base.
+
+Best regards,
+SIA RTW Portal
+    `,
+  };
+}
+
 export async function sendPasswordResetEmail(
   email: string,
   name: string,
@@ -0,0 +1,233 @@
+/**
+ * Embedding providers for semantic search over the knowledge base
+ *
+ * The active provider is selected with EMBEDDING_PROVIDER:
+ * - local  (default) deterministic feature-hashing embeddings, no network required
+ * - openai any OpenAI-compatible /embeddings endpoint
+ *
+ * Stored embeddings are tagged with the provider name and model, so switching
+ * providers requires re-indexing (`npm run kb:reindex`).
+ */
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'may', 'me', 'my', 'of', 'on',
+  'or', 'our', 'should', 'so', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you',
+  'your',
+]);
+
+// Domain vocabulary that members use interchangeably
+const SYNONYMS: Record<string, string> = {
+  limitation: 'restriction',
+  limitations: 'restriction',
+  restrictions: 'restriction',
+  accommodate: 'accommodation',
+  accommodations: 'accommodation',
+  disabled: 'disability',
+  disabilities: 'disability',
+  rtw: 'return work',
+  wc: 'workers compensation',
+  comp: 'compensation',
+  temp: 'temporary',
+  perm: 'permanent',
+  lbs: 'pound',
+  lb: 'pound',
+  pounds: 'pound',
+};
+
+function stem(token: string): string {
+  if (token.length <= 4 || /\d/.test(token)) return token;
+  for (const suffix of ['ations', 'ation', 'ments', 'ment', 'ings', 'ing', 'ies', 'ed', 'es', 's']) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= 4) {
+      return suffix === 'ies' ? token.slice(0, -3) + 'y' : token.slice(0, -suffix.length);
+    }
+  }
+  return token;
+}
+
+/**
+ * Split text into normalized search tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .flatMap((token) => (SYNONYMS[token] ?? token).split(' '))
+    .filter((token) => !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+// 32-bit FNV-1a hash
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * Deterministic embedding provider based on feature hashing
+ *
+ * Words, word pairs and character trigrams are hashed into a fixed number of
+ * buckets. It captures lexical overlap and close word forms rather than true
+ * meaning, but is stable across runs and needs no network, which makes it
+ * suitable for development, tests and air-gapped deployments.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = 'feature-hash-v1';
+
+  constructor(readonly dimensions: number = 512) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+
+    const add = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) ?? 0) + weight);
+    };
+
+    tokens.forEach((token, idx) => {
+      add(`w:${token}`, 1);
+      if (idx > 0) add(`b:${tokens[idx - 1]}_${token}`, 0.5);
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, 0.2);
+      }
+    });
+
+    counts.forEach((weight, feature) => {
+      const hash = hashFeature(feature);
+      const sign = hash & 1 ? 1 : -1;
+      vector[hash % this.dimensions] += sign * Math.log1p(weight);
+    });
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embedding provider for OpenAI-compatible embedding APIs
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+
+  constructor(
+    readonly model: string,
+    readonly dimensions: number,
+    private apiKey: string,
+    private baseUrl: string = 'https://api.openai.com/v1'
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        dimensions: this.dimensions,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed with status ${response.status}`);
+    }
+
+    const data: { data: { index: number; embedding: number[] }[] } = await response.json();
+    return data.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (activeProvider) return activeProvider;
+
+  const providerName = process.env.EMBEDDING_PROVIDER || 'local';
+  const dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '512');
+
+  switch (providerName) {
+    case 'local':
+      activeProvider = new LocalEmbeddingProvider(dimensions);
+      break;
+    case 'openai':
+      if (!process.env.EMBEDDING_API_KEY) {
+        throw new Error('EMBEDDING_API_KEY is required for the openai embedding provider');
+      }
+      activeProvider = new OpenAIEmbeddingProvider(
+        process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+        dimensions,
+        process.env.EMBEDDING_API_KEY,
+        process.env.EMBEDDING_API_URL
+      );
+      break;
+    default:
+      throw new Error(`Unknown embedding provider: ${providerName}`);
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Override the embedding provider (used by scripts and tests)
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Serialize a vector for pgvector (e.g. '[0.1,0.2,0.3]')
+ */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
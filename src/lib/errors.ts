@@ -54,6 +54,13 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class QuotaExceededError extends AppError {
+  constructor(message: string = 'Usage quota exceeded. Please try again later.') {
+    super(429, message, 'QUOTA_EXCEEDED_ERROR');
+    this.name = 'QuotaExceededError';
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = 'An internal server error occurred') {
     super(500, message, 'INTERNAL_SERVER_ERROR');
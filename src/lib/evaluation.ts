@@ -0,0 +1,324 @@
+/**
+ * Offline evaluation of chatbot retrieval and answers
+ *
+ * Each active golden-set case is run through knowledge base search and answer
+ * generation with whichever LLM provider is configured (set the stub provider
+ * for fully offline runs). Retrieval is scored with recall@k and reciprocal
+ * rank against the expected documents; answers are scored by how many key
+ * facts they state. Every run is stored with its configuration so runs can be
+ * compared case by case.
+ */
+
+import crypto from 'crypto';
+import { Prisma, UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { NotFoundError, ValidationError } from './errors';
+import {
+  DEFAULT_MAX_CHUNKS_PER_DOCUMENT,
+  DOCUMENT_TYPE_BOOSTS,
+  searchKnowledgeBase,
+  SearchResult,
+} from './knowledge-base';
+import { answerStandaloneQuestion } from './chatbot';
+import { Citation } from './citations';
+import { ActivePrompt, getPromptVersion, getPublishedPrompt } from './prompt-templates';
+import { getLlmProvider } from './llm';
+import { getEmbeddingProvider, tokenize } from './embeddings';
+import { CHUNKER_VERSION } from './chunking';
+import { DocumentViewer } from './document-visibility';
+
+// Share of a fact's terms the answer must contain for the fact to count as stated
+export const FACT_MATCH_THRESHOLD = 0.8;
+
+// Golden-set cases are scored against the whole knowledge base, restricted documents included
+const EVALUATION_VIEWER: DocumentViewer = { role: UserRole.ADMIN, department: null };
+
+export interface EvaluationOptions {
+  k?: number;
+  label?: string;
+  caseIds?: string[];
+  promptTemplateId?: string; // Evaluate this prompt version instead of the published one
+}
+
+export interface FactMatch {
+  coverage: number | null; // Null when the case has no key facts
+  missing: string[];
+}
+
+/**
+ * Document ids in rank order, each listed once
+ */
+export function rankedDocumentIds(results: SearchResult[]): string[] {
+  return Array.from(new Set(results.map((result) => result.documentId)));
+}
+
+/**
+ * Share of expected documents found in the top k
+ */
+export function recallAtK(expected: string[], retrieved: string[], k: number): number | null {
+  if (expected.length === 0) return null;
+  const topK = new Set(retrieved.slice(0, k));
+  return expected.filter((id) => topK.has(id)).length / expected.length;
+}
+
+/**
+ * 1 / rank of the first expected document, or 0 if none was retrieved
+ */
+export function reciprocalRank(expected: string[], retrieved: string[]): number | null {
+  if (expected.length === 0) return null;
+  const rank = retrieved.findIndex((id) => expected.includes(id));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/**
+ * Check which key facts an answer states
+ * Facts and answer are compared as normalized terms, so wording and word
+ * forms may differ as long as most of the fact's terms are present.
+ */
+export function matchFacts(answer: string, facts: string[]): FactMatch {
+  if (facts.length === 0) return { coverage: null, missing: [] };
+
+  const answerTerms = new Set(tokenize(answer));
+  const missing = facts.filter((fact) => {
+    const terms = Array.from(new Set(tokenize(fact)));
+    if (terms.length === 0) return false;
+    const found = terms.filter((term) => answerTerms.has(term)).length;
+    return found / terms.length < FACT_MATCH_THRESHOLD;
+  });
+
+  return { coverage: (facts.length - missing.length) / facts.length, missing };
+}
+
+function mean(values: (number | null)[]): number | null {
+  const scored = values.filter((value): value is number => value !== null);
+  return scored.length > 0 ? scored.reduce((sum, value) => sum + value, 0) / scored.length : null;
+}
+
+/**
+ * Settings that affect results, stored with each run
+ */
+function evaluationConfig(k: number, prompt: ActivePrompt) {
+  const llm = getLlmProvider();
+  const embeddings = getEmbeddingProvider();
+
+  return {
+    k,
+    llmProvider: llm.name,
+    llmModel: llm.model,
+    embeddingProvider: embeddings.name,
+    embeddingModel: embeddings.model,
+    minScore: parseFloat(process.env.KNOWLEDGE_BASE_MIN_SCORE || '0.2'),
+    maxChunksPerDocument: DEFAULT_MAX_CHUNKS_PER_DOCUMENT,
+    typeBoosts: DOCUMENT_TYPE_BOOSTS,
+    viewerRole: EVALUATION_VIEWER.role,
+    chunkerVersion: CHUNKER_VERSION,
+    promptTemplateId: prompt.id,
+    promptVersion: prompt.version,
+    // Changes whenever the system prompt wording changes
+    promptHash: crypto.createHash('sha256').update(prompt.body).digest('hex').slice(0, 12),
+  };
+}
+
+/**
+ * Run the golden set and store the results
+ */
+export async function runEvaluation(options: EvaluationOptions = {}) {
+  const k = options.k ?? 5;
+  const startedAt = Date.now();
+  const prompt = options.promptTemplateId
+    ? await getPromptVersion(options.promptTemplateId)
+    : await getPublishedPrompt();
+
+  const cases = await prisma.evaluationCase.findMany({
+    where: options.caseIds ? { id: { in: options.caseIds } } : { isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (cases.length === 0) {
+    throw new ValidationError('No evaluation cases to run');
+  }
+
+  const results: Prisma.EvaluationResultCreateManyRunInput[] = [];
+
+  for (const evaluationCase of cases) {
+    const base = {
+      caseId: evaluationCase.id,
+      question: evaluationCase.question,
+      expectedDocumentIds: evaluationCase.expectedDocumentIds,
+    };
+
+    try {
+      const sources = await searchKnowledgeBase(evaluationCase.question, {
+        limit: k,
+        viewer: EVALUATION_VIEWER,
+      });
+      const retrieved = rankedDocumentIds(sources);
+      const answer = await answerStandaloneQuestion(evaluationCase.question, sources, {
+        template: prompt.body,
+        viewer: EVALUATION_VIEWER,
+      });
+      const facts = matchFacts(answer, evaluationCase.keyFacts);
+
+      results.push({
+        ...base,
+        retrievedDocumentIds: retrieved,
+        recallAtK: recallAtK(evaluationCase.expectedDocumentIds, retrieved, k),
+        reciprocalRank: reciprocalRank(evaluationCase.expectedDocumentIds, retrieved),
+        factCoverage: facts.coverage,
+        missingFacts: facts.missing,
+        answer,
+      });
+    } catch (error) {
+      logger.error('Evaluation case failed', error, { caseId: evaluationCase.id });
+      // Failed cases score zero rather than dropping out of the averages
+      results.push({
+        ...base,
+        retrievedDocumentIds: [],
+        recallAtK: evaluationCase.expectedDocumentIds.length > 0 ? 0 : null,
+        reciprocalRank: evaluationCase.expectedDocumentIds.length > 0 ? 0 : null,
+        factCoverage: evaluationCase.keyFacts.length > 0 ? 0 : null,
+        missingFacts: evaluationCase.keyFacts,
+        answer: '',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const run = await prisma.evaluationRun.create({
+    data: {
+      label: options.label,
+      k,
+      caseCount: results.length,
+      recallAtK: mean(results.map((result) => result.recallAtK ?? null)),
+      mrr: mean(results.map((result) => result.reciprocalRank ?? null)),
+      factCoverage: mean(results.map((result) => result.factCoverage ?? null)),
+      config: evaluationConfig(k, prompt),
+      durationMs: Date.now() - startedAt,
+      results: { createMany: { data: results } },
+    },
+  });
+
+  logger.info('Evaluation run completed', {
+    runId: run.id,
+    cases: run.caseCount,
+    recallAtK: run.recallAtK,
+    mrr: run.mrr,
+    factCoverage: run.factCoverage,
+  });
+
+  return run;
+}
+
+/**
+ * Per-case comparison of a run against an earlier one
+ * Defaults to the run immediately before it. Cases are matched by id.
+ */
+export async function compareEvaluationRuns(runId: string, baselineRunId?: string) {
+  const run = await prisma.evaluationRun.findUnique({
+    where: { id: runId },
+    include: { results: { orderBy: { question: 'asc' } } },
+  });
+
+  if (!run) {
+    throw new NotFoundError('Evaluation run not found');
+  }
+
+  const baseline = baselineRunId
+    ? await prisma.evaluationRun.findUnique({ where: { id: baselineRunId }, include: { results: true } })
+    : await prisma.evaluationRun.findFirst({
+        where: { createdAt: { lt: run.createdAt } },
+        orderBy: { createdAt: 'desc' },
+        include: { results: true },
+      });
+
+  const baselineByCase = new Map(
+    (baseline?.results ?? []).filter((result) => result.caseId).map((result) => [result.caseId, result])
+  );
+
+  const delta = (current: number | null, previous: number | null | undefined) =>
+    current !== null && previous !== null && previous !== undefined ? current - previous : null;
+
+  const { results, ...runSummary } = run;
+
+  return {
+    run: runSummary,
+    baseline: baseline
+      ? {
+          id: baseline.id,
+          label: baseline.label,
+          createdAt: baseline.createdAt,
+          recallAtK: baseline.recallAtK,
+          mrr: baseline.mrr,
+          factCoverage: baseline.factCoverage,
+          config: baseline.config,
+        }
+      : null,
+    results: results.map((result) => {
+      const previous = result.caseId ? baselineByCase.get(result.caseId) : undefined;
+      return {
+        ...result,
+        change: previous
+          ? {
+              recallAtK: delta(result.recallAtK, previous.recallAtK),
+              reciprocalRank: delta(result.reciprocalRank, previous.reciprocalRank),
+              factCoverage: delta(result.factCoverage, previous.factCoverage),
+            }
+          : null,
+      };
+    }),
+  };
+}
+
+/**
+ * Golden-set case from a real chatbot answer
+ * The question is the member message before the answer (stored redacted) and
+ * the expected documents default to the sources the answer validly cited.
+ */
+export async function createEvaluationCaseFromMessage(
+  messageId: string,
+  userId: string,
+  data: { keyFacts: string[]; question?: string; expectedDocumentIds?: string[]; notes?: string }
+) {
+  const message = await prisma.chatbotMessage.findUnique({ where: { id: messageId } });
+
+  if (!message || message.role !== 'ASSISTANT') {
+    throw new NotFoundError('Chatbot answer not found');
+  }
+
+  const questionMessage = await prisma.chatbotMessage.findFirst({
+    where: {
+      conversationId: message.conversationId,
+      role: 'USER',
+      createdAt: { lt: message.createdAt },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const question = data.question || questionMessage?.content;
+  if (!question) {
+    throw new ValidationError('Could not find the question for this answer');
+  }
+
+  // Only sources the answer actually cited, not everything that was retrieved
+  const citedDocumentIds = Array.isArray(message.citations)
+    ? Array.from(
+        new Set(
+          (message.citations as unknown as Citation[])
+            .map((citation) => citation.documentId)
+            .filter((id): id is string => Boolean(id))
+        )
+      )
+    : [];
+
+  return prisma.evaluationCase.create({
+    data: {
+      question,
+      expectedDocumentIds: data.expectedDocumentIds ?? citedDocumentIds,
+      keyFacts: data.keyFacts,
+      notes: data.notes,
+      sourceMessageId: message.id,
+      createdById: userId,
+    },
+  });
+}
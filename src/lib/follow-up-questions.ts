@@ -0,0 +1,101 @@
+/**
+ * Suggested follow-up questions
+ *
+ * Each answer comes with up to MAX_SUGGESTIONS questions the member might ask
+ * next, shown as chips under the answer. They are written from the retrieved
+ * sources so the knowledge base can answer them, which means answers without
+ * sources get none.
+ *
+ * FOLLOW_UP_SUGGESTIONS=off turns them off.
+ */
+
+import { LlmProvider } from './llm';
+import { logger } from './logger';
+import { SearchResult } from './knowledge-base';
+
+export const MAX_SUGGESTIONS = 3;
+
+const MAX_QUESTION_LENGTH = 200;
+const SOURCE_EXCERPT_LENGTH = 800;
+
+const SUGGESTIONS_SYSTEM_PROMPT = `You suggest follow-up questions for an SD member talking to the RTW program assistant. Given the member's question, the assistant's answer and the sources the answer drew on, write ${MAX_SUGGESTIONS} short questions the member is likely to ask next.
+
+Each question must be answerable from the sources, must not repeat what the answer already covers, and must be written in the member's voice (e.g. "Does this apply to non-industrial injuries?"). Keep placeholders such as [PERSON_1] exactly as written.
+
+Respond with a JSON array of strings only.`;
+
+function clean(question: string): string {
+  return question.replace(/\s+/g, ' ').trim().slice(0, MAX_QUESTION_LENGTH);
+}
+
+/**
+ * Parse the model's JSON reply, keeping distinct questions that differ from the one asked
+ */
+export function parseSuggestions(text: string, question: string): string[] {
+  const json = text.match(/\[[\s\S]*\]/)?.[0];
+  if (!json) return [];
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+
+    const seen = new Set([clean(question).toLowerCase()]);
+    const suggestions: string[] = [];
+    for (const item of parsed) {
+      if (typeof item !== 'string') continue;
+      const suggestion = clean(item);
+      if (!suggestion.endsWith('?') || seen.has(suggestion.toLowerCase())) continue;
+      seen.add(suggestion.toLowerCase());
+      suggestions.push(suggestion);
+    }
+
+    return suggestions.slice(0, MAX_SUGGESTIONS);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Follow-up questions grounded in an answer's sources
+ * Pass the question and answer as sent to the model (redacted). Failures are
+ * logged and give no suggestions rather than failing the answer.
+ */
+export async function suggestFollowUpQuestions(
+  question: string,
+  answer: string,
+  sources: SearchResult[],
+  llm: LlmProvider,
+  signal?: AbortSignal
+): Promise<string[]> {
+  if (process.env.FOLLOW_UP_SUGGESTIONS === 'off' || sources.length === 0) {
+    return [];
+  }
+
+  const sourceList = sources
+    .map((result, idx) => {
+      const label = result.section ? `${result.title} > ${result.section}` : result.title;
+      return `[Source ${idx + 1}: ${label} (${result.type})]\n${result.content.slice(0, SOURCE_EXCERPT_LENGTH)}`;
+    })
+    .join('\n\n');
+
+  try {
+    const { text } = await llm.complete({
+      purpose: 'suggestions',
+      maxTokens: 300,
+      system: SUGGESTIONS_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: `Question:\n${question}\n\nAnswer:\n${answer}\n\nSources:\n${sourceList}`,
+        },
+      ],
+      signal,
+    });
+
+    return parseSuggestions(text, question);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    logger.error('Follow-up suggestions failed', error);
+    return [];
+  }
+}
@@ -0,0 +1,133 @@
+import { DocumentType, EscalationStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { createTrainingDocument, updateTrainingDocument } from './knowledge-base';
+import { invalidateCachedAnswers } from './answer-cache';
+
+const ROLE_LABELS: Record<string, string> = {
+  MEMBER: 'SD Member',
+  LIAISON: 'RTW Liaison',
+  LEGAL: 'Legal Counsel',
+  ADMIN: 'Admin',
+};
+
+type PostForTraining = NonNullable<Awaited<ReturnType<typeof loadPostForTraining>>>;
+
+function loadPostForTraining(postId: string) {
+  return prisma.post.findUnique({
+    where: { id: postId },
+    include: {
+      category: { select: { name: true } },
+      tags: { include: { tag: { select: { name: true } } } },
+      replies: {
+        where: { isHelpful: true },
+        include: { author: { select: { fullName: true, role: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+      escalations: {
+        where: {
+          status: { in: [EscalationStatus.RESOLVED, EscalationStatus.CLOSED] },
+          resolution: { not: null },
+        },
+        orderBy: { resolvedAt: 'asc' },
+      },
+    },
+  });
+}
+
+/**
+ * Format a forum post as a training document
+ * Only replies marked helpful and escalation resolutions are included, so
+ * unresolved debate in the thread doesn't reach the chatbot.
+ */
+export function formatPostForTraining(post: PostForTraining): string {
+  const sections = [`Question:\n${post.content}`];
+
+  const details = [
+    `Category: ${post.category.name}`,
+    post.tags.length > 0 && `Tags: ${post.tags.map(({ tag }) => tag.name).join(', ')}`,
+  ].filter(Boolean);
+  sections.push(details.join('\n'));
+
+  if (post.replies.length > 0) {
+    sections.push(
+      'Helpful Answers:',
+      ...post.replies.map(
+        (reply) => `Answer from ${ROLE_LABELS[reply.author.role] || reply.author.role}:\n${reply.content}`
+      )
+    );
+  }
+
+  for (const escalation of post.escalations) {
+    const resolvedBy = escalation.escalationType === 'LEGAL' ? 'Legal Counsel' : 'RTW Liaison';
+    sections.push(`Escalation Resolution (${resolvedBy}):\n${escalation.resolution}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Create, refresh or deactivate the FORUM_POST training document for a post
+ * Approved posts get an active document built from the current thread;
+ * posts that are no longer approved have their document deactivated.
+ */
+export async function syncForumPostTrainingDocument(postId: string, userId: string) {
+  const post = await loadPostForTraining(postId);
+
+  if (!post || !post.approvedForTraining) {
+    await deactivateForumPostTrainingDocuments(postId);
+    return null;
+  }
+
+  const data = {
+    title: post.title,
+    content: formatPostForTraining(post),
+    isActive: true,
+  };
+
+  const existing = await prisma.trainingDocument.findFirst({
+    where: { sourcePostId: post.id, documentType: DocumentType.FORUM_POST },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const document = existing
+    ? await updateTrainingDocument(existing.id, data)
+    : await createTrainingDocument({
+        ...data,
+        documentType: DocumentType.FORUM_POST,
+        sourcePostId: post.id,
+        uploadedById: userId,
+      });
+
+  logger.info('Synced forum post training document', {
+    postId: post.id,
+    documentId: document.id,
+    helpfulReplies: post.replies.length,
+    resolutions: post.escalations.length,
+  });
+
+  return document;
+}
+
+/**
+ * Deactivate every FORUM_POST training document built from a post
+ */
+export async function deactivateForumPostTrainingDocuments(postId: string): Promise<number> {
+  const documents = await prisma.trainingDocument.findMany({
+    where: { sourcePostId: postId, documentType: DocumentType.FORUM_POST, isActive: true },
+    select: { id: true },
+  });
+  const documentIds = documents.map((document) => document.id);
+
+  const { count } = await prisma.trainingDocument.updateMany({
+    where: { id: { in: documentIds } },
+    data: { isActive: false },
+  });
+
+  if (count > 0) {
+    await invalidateCachedAnswers(documentIds);
+    logger.info('Deactivated forum post training documents', { postId, count });
+  }
+
+  return count;
+}
@@ -0,0 +1,452 @@
+import crypto from 'crypto';
+import { DocumentType, Prisma, UserRole, VisibilityTier } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { getEmbeddingProvider, toVectorLiteral } from './embeddings';
+import { chunkDocument, CHUNKER_VERSION, DEFAULT_CHUNK_OPTIONS } from './chunking';
+import { DocumentViewer, visibilityTier } from './document-visibility';
+import { invalidateCachedAnswers } from './answer-cache';
+
+export interface SearchResult {
+  documentId: string;
+  chunkId: string;
+  chunkIndex: number;
+  section: string | null;
+  startOffset: number;
+  endOffset: number;
+  content: string;
+  title: string;
+  type: string;
+  sourcePostId: string | null; // Forum post the document was created from
+  visibilityTier: VisibilityTier;
+  score: number;
+  semanticScore: number | null; // Cosine similarity, when found by the semantic retriever
+  keywordScore: number | null; // Full-text rank, when found by the keyword retriever
+}
+
+export interface DocumentTextMatch {
+  id: string;
+  rank: number;
+  headline: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  minScore?: number; // Minimum cosine similarity for semantic candidates
+  candidateLimit?: number; // Candidates taken from each retriever before fusion
+  maxChunksPerDocument?: number;
+  typeBoosts?: Partial<Record<DocumentType, number>>;
+  viewer?: DocumentViewer | null; // Only documents this user may see; unrestricted documents when unset
+}
+
+// Constant from the original RRF paper; dampens the weight of top ranks
+const RRF_K = 60;
+
+export const DEFAULT_MAX_CHUNKS_PER_DOCUMENT = 2;
+
+// Authoritative material ranks ahead of forum discussion on otherwise equal matches
+export const DOCUMENT_TYPE_BOOSTS: Record<DocumentType, number> = {
+  COMPLIANCE: 1.2,
+  QA: 1.1,
+  JOB_DESC: 1.0,
+  BRIDGE: 1.0,
+  FORUM_POST: 0.9,
+};
+
+const HEADING_SEPARATOR = ' > ';
+
+function sourceHash(title: string, content: string): string {
+  const { maxTokens, overlapTokens } = DEFAULT_CHUNK_OPTIONS;
+  return crypto
+    .createHash('sha256')
+    .update(`${CHUNKER_VERSION}:${maxTokens}:${overlapTokens}\n${title}\n${content}`)
+    .digest('hex');
+}
+
+/**
+ * Chunk a training document and store an embedding per chunk
+ * Skips documents whose content, chunking settings and embedding provider are unchanged
+ */
+export async function indexTrainingDocument(documentId: string): Promise<boolean> {
+  const document = await prisma.trainingDocument.findUnique({
+    where: { id: documentId },
+    include: {
+      chunks: {
+        select: { sourceHash: true, embeddingProvider: true, embeddingModel: true },
+        take: 1,
+      },
+    },
+  });
+
+  if (!document) {
+    throw new Error(`Training document ${documentId} not found`);
+  }
+
+  const provider = getEmbeddingProvider();
+  const hash = sourceHash(document.title, document.content);
+  const existing = document.chunks[0];
+
+  if (
+    existing &&
+    existing.sourceHash === hash &&
+    existing.embeddingProvider === provider.name &&
+    existing.embeddingModel === provider.model
+  ) {
+    return false;
+  }
+
+  const chunks = chunkDocument(document.content);
+  // Title and section path give each chunk the context it loses when split out
+  const vectors = await provider.embed(
+    chunks.map((chunk) =>
+      [document.title, chunk.headingPath.join(HEADING_SEPARATOR), chunk.content]
+        .filter(Boolean)
+        .join('\n\n')
+    )
+  );
+
+  await prisma.$transaction(async (tx) => {
+    await tx.trainingDocumentChunk.deleteMany({ where: { documentId: document.id } });
+
+    for (const [idx, chunk] of chunks.entries()) {
+      await tx.$executeRaw`
+        INSERT INTO training_document_chunks
+          (id, document_id, chunk_index, heading, content, start_offset, end_offset,
+           token_count, source_hash, embedding_provider, embedding_model, embedding, created_at)
+        VALUES
+          (${crypto.randomUUID()}, ${document.id}, ${chunk.index},
+           ${chunk.headingPath.length > 0 ? chunk.headingPath.join(HEADING_SEPARATOR) : null},
+           ${chunk.content}, ${chunk.startOffset}, ${chunk.endOffset}, ${chunk.tokenCount},
+           ${hash}, ${provider.name}, ${provider.model}, ${toVectorLiteral(vectors[idx])}::vector, NOW())
+      `;
+    }
+  });
+
+  logger.info('Indexed training document', {
+    documentId: document.id,
+    chunks: chunks.length,
+    provider: provider.name,
+    model: provider.model,
+  });
+
+  return true;
+}
+
+/**
+ * Create a training document and index it for retrieval
+ * If indexing fails the document (and any uploaded file) is deleted again, so
+ * the caller can retry without tripping over a half-created document.
+ */
+export async function createTrainingDocument(data: Prisma.TrainingDocumentUncheckedCreateInput) {
+  const document = await prisma.trainingDocument.create({ data });
+
+  try {
+    await indexTrainingDocument(document.id);
+  } catch (error) {
+    await prisma.trainingDocument.delete({ where: { id: document.id } });
+    throw error;
+  }
+
+  return document;
+}
+
+/**
+ * Update a training document and re-index it if its content changed
+ * Cached answers citing it are dropped, since they may no longer hold.
+ */
+export async function updateTrainingDocument(
+  documentId: string,
+  data: Prisma.TrainingDocumentUncheckedUpdateInput
+) {
+  const document = await prisma.trainingDocument.update({
+    where: { id: documentId },
+    data,
+  });
+  await invalidateCachedAnswers([document.id]);
+
+  if (document.isActive) {
+    await indexTrainingDocument(document.id);
+  }
+
+  return document;
+}
+
+/**
+ * Index every active training document that is missing or has stale chunks
+ */
+export async function reindexKnowledgeBase(): Promise<{ indexed: number; skipped: number; failed: number }> {
+  const documents = await prisma.trainingDocument.findMany({
+    where: { isActive: true },
+    select: { id: true },
+  });
+
+  const summary = { indexed: 0, skipped: 0, failed: 0 };
+
+  for (const { id } of documents) {
+    try {
+      const indexed = await indexTrainingDocument(id);
+      summary[indexed ? 'indexed' : 'skipped']++;
+    } catch (error) {
+      summary.failed++;
+      logger.error('Failed to index training document', error, { documentId: id });
+    }
+  }
+
+  return summary;
+}
+
+interface ChunkRow {
+  chunkId: string;
+  chunkIndex: number;
+  heading: string | null;
+  startOffset: number;
+  endOffset: number;
+  content: string;
+  documentId: string;
+  title: string;
+  documentType: DocumentType;
+  sourcePostId: string | null;
+  visibleToRoles: UserRole[];
+  visibleToDepartments: string[];
+  score: number;
+}
+
+/**
+ * SQL condition limiting training documents `d` to those the viewer may see
+ * Mirrors canViewDocument so retrieval never returns a restricted document.
+ */
+export function visibilityCondition(viewer: DocumentViewer | null): Prisma.Sql {
+  if (viewer?.role === UserRole.ADMIN) {
+    return Prisma.sql`TRUE`;
+  }
+
+  const roleCondition = viewer
+    ? Prisma.sql`(cardinality(d.visible_to_roles) = 0 OR ${viewer.role}::"UserRole" = ANY(d.visible_to_roles))`
+    : Prisma.sql`cardinality(d.visible_to_roles) = 0`;
+
+  const department = viewer?.department?.trim().toLowerCase();
+  const departmentCondition = department
+    ? Prisma.sql`(cardinality(d.visible_to_departments) = 0 OR ${department} IN (SELECT lower(trim(dep)) FROM unnest(d.visible_to_departments) dep))`
+    : Prisma.sql`cardinality(d.visible_to_departments) = 0`;
+
+  return Prisma.sql`${roleCondition} AND ${departmentCondition}`;
+}
+
+/**
+ * Chunks closest to the query embedding, by cosine similarity
+ */
+async function semanticCandidates(
+  query: string,
+  limit: number,
+  minScore: number,
+  viewer: DocumentViewer | null
+): Promise<ChunkRow[]> {
+  const provider = getEmbeddingProvider();
+  const [queryVector] = await provider.embed([query]);
+  const vectorLiteral = toVectorLiteral(queryVector);
+
+  const rows = await prisma.$queryRaw<ChunkRow[]>`
+    SELECT c.id AS "chunkId", c.chunk_index AS "chunkIndex", c.heading,
+           c.start_offset AS "startOffset", c.end_offset AS "endOffset", c.content,
+           d.id AS "documentId", d.title, d.document_type::text AS "documentType", d.source_post_id AS "sourcePostId",
+           d.visible_to_roles::text[] AS "visibleToRoles", d.visible_to_departments AS "visibleToDepartments",
+           1 - (c.embedding <=> ${vectorLiteral}::vector) AS score
+    FROM training_document_chunks c
+    JOIN training_documents d ON d.id = c.document_id
+    WHERE d.is_active = true
+      AND ${visibilityCondition(viewer)}
+      AND c.embedding_provider = ${provider.name}
+      AND c.embedding_model = ${provider.model}
+    ORDER BY c.embedding <=> ${vectorLiteral}::vector
+    LIMIT ${limit}
+  `;
+
+  return rows
+    .map((row) => ({ ...row, score: Number(row.score) }))
+    .filter((row) => row.score >= minScore);
+}
+
+/**
+ * Chunks matching the query terms, by Postgres full-text rank
+ * Any term may match, so exact identifiers such as form numbers, statute
+ * sections and classification codes are found inside longer questions.
+ * Quoted phrases use web search syntax and must match as written.
+ */
+async function keywordCandidates(query: string, limit: number, viewer: DocumentViewer | null): Promise<ChunkRow[]> {
+  const tsQuery = query.includes('"')
+    ? Prisma.sql`websearch_to_tsquery('english', ${query})`
+    : Prisma.sql`to_tsquery('english', replace(plainto_tsquery('english', ${query})::text, ' & ', ' | '))`;
+
+  const rows = await prisma.$queryRaw<ChunkRow[]>`
+    SELECT c.id AS "chunkId", c.chunk_index AS "chunkIndex", c.heading,
+           c.start_offset AS "startOffset", c.end_offset AS "endOffset", c.content,
+           d.id AS "documentId", d.title, d.document_type::text AS "documentType", d.source_post_id AS "sourcePostId",
+           d.visible_to_roles::text[] AS "visibleToRoles", d.visible_to_departments AS "visibleToDepartments",
+           ts_rank_cd(v.document, q) AS score
+    FROM training_document_chunks c
+    JOIN training_documents d ON d.id = c.document_id
+    CROSS JOIN LATERAL (
+      SELECT setweight(to_tsvector('english', d.title), 'A') ||
+             setweight(to_tsvector('english', coalesce(c.heading, '')), 'B') ||
+             to_tsvector('english', c.content) AS document
+    ) v,
+    ${tsQuery} q
+    WHERE d.is_active = true
+      AND ${visibilityCondition(viewer)}
+      AND v.document @@ q
+    ORDER BY score DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({ ...row, score: Number(row.score) }));
+}
+
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) per item
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, idx) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + idx + 1));
+    });
+  }
+
+  return scores;
+}
+
+/**
+ * Take results in order, at most maxPerDocument from any one document
+ * Diversity: don't let one long document fill every slot.
+ */
+function takePerDocument<T extends { documentId: string }>(ranked: T[], limit: number, maxPerDocument: number): T[] {
+  const perDocument = new Map<string, number>();
+  const selected: T[] = [];
+
+  for (const item of ranked) {
+    if (selected.length >= limit) break;
+
+    const count = perDocument.get(item.documentId) ?? 0;
+    if (count >= maxPerDocument) continue;
+    perDocument.set(item.documentId, count + 1);
+    selected.push(item);
+  }
+
+  return selected;
+}
+
+/**
+ * Hybrid search over training document chunks
+ * Keyword and semantic candidates are merged with reciprocal rank fusion,
+ * weighted by document type, and at most maxChunksPerDocument chunks are
+ * taken from any one document. Only documents the viewer may see are
+ * considered. `score` is the weighted fusion score; `semanticScore` and
+ * `keywordScore` are the raw scores from each retriever.
+ */
+export async function searchKnowledgeBase(
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const {
+    limit = 5,
+    minScore = parseFloat(process.env.KNOWLEDGE_BASE_MIN_SCORE || '0.2'),
+    candidateLimit = Math.max(limit * 4, 20),
+    maxChunksPerDocument = DEFAULT_MAX_CHUNKS_PER_DOCUMENT,
+    typeBoosts = DOCUMENT_TYPE_BOOSTS,
+    viewer = null,
+  } = options;
+
+  const [semantic, keyword] = await Promise.all([
+    semanticCandidates(query, candidateLimit, minScore, viewer),
+    keywordCandidates(query, candidateLimit, viewer),
+  ]);
+
+  const chunks = new Map<string, ChunkRow>();
+  [...semantic, ...keyword].forEach((row) => chunks.set(row.chunkId, row));
+  const semanticScores = new Map(semantic.map((row) => [row.chunkId, row.score]));
+  const keywordScores = new Map(keyword.map((row) => [row.chunkId, row.score]));
+
+  const fused = reciprocalRankFusion([
+    semantic.map((row) => row.chunkId),
+    keyword.map((row) => row.chunkId),
+  ]);
+
+  const ranked = Array.from(fused, ([chunkId, score]) => {
+    const row = chunks.get(chunkId)!;
+    return { row, documentId: row.documentId, score: score * (typeBoosts[row.documentType] ?? 1) };
+  }).sort((a, b) => b.score - a.score);
+
+  return takePerDocument(ranked, limit, maxChunksPerDocument).map(
+    ({ row, score }): SearchResult => ({
+      documentId: row.documentId,
+      chunkId: row.chunkId,
+      chunkIndex: row.chunkIndex,
+      section: row.heading,
+      startOffset: row.startOffset,
+      endOffset: row.endOffset,
+      content: row.content,
+      title: row.title,
+      type: row.documentType,
+      sourcePostId: row.sourcePostId,
+      visibilityTier: visibilityTier(row),
+      score,
+      semanticScore: semanticScores.get(row.chunkId) ?? null,
+      keywordScore: keywordScores.get(row.chunkId) ?? null,
+    })
+  );
+}
+
+/**
+ * Search with a standalone query and its sub-queries
+ * Each query is searched on its own and the result lists are fused again, so
+ * every part of a multi-part question can contribute sources. `score` is the
+ * fusion score across queries.
+ */
+export async function searchKnowledgeBaseQueries(
+  queries: string[],
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const unique = Array.from(new Set(queries.map((query) => query.trim()).filter(Boolean)));
+  if (unique.length <= 1) {
+    return searchKnowledgeBase(unique[0] ?? '', options);
+  }
+
+  const { limit = 5, maxChunksPerDocument = DEFAULT_MAX_CHUNKS_PER_DOCUMENT } = options;
+  const resultLists = await Promise.all(unique.map((query) => searchKnowledgeBase(query, options)));
+
+  const results = new Map<string, SearchResult>();
+  resultLists.flat().forEach((result) => {
+    if (!results.has(result.chunkId)) results.set(result.chunkId, result);
+  });
+
+  const fused = reciprocalRankFusion(resultLists.map((list) => list.map((result) => result.chunkId)));
+  const ranked = Array.from(fused, ([chunkId, score]) => ({ ...results.get(chunkId)!, score })).sort(
+    (a, b) => b.score - a.score
+  );
+
+  return takePerDocument(ranked, limit, maxChunksPerDocument);
+}
+
+/**
+ * Full-text search over training document titles and content
+ * Returns matching document ids by rank with a highlighted excerpt; filters
+ * are applied by the caller.
+ */
+export async function fullTextSearchTrainingDocuments(
+  query: string,
+  limit: number = 500
+): Promise<DocumentTextMatch[]> {
+  const rows = await prisma.$queryRaw<DocumentTextMatch[]>`
+    SELECT d.id,
+           ts_rank(to_tsvector('english', d.title || ' ' || d.content), q) AS rank,
+           ts_headline('english', d.content, q,
+             'StartSel=<<, StopSel=>>, MaxWords=35, MinWords=15, MaxFragments=2') AS headline
+    FROM training_documents d, websearch_to_tsquery('english', ${query}) q
+    WHERE to_tsvector('english', d.title || ' ' || d.content) @@ q
+    ORDER BY rank DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({ ...row, rank: Number(row.rank) }));
+}
@@ -0,0 +1,229 @@
+/**
+ * Knowledge gaps from chatbot questions the knowledge base couldn't answer
+ *
+ * Every answer records how many sources were retrieved and, when it is low
+ * confidence, why. The gap report groups similar unanswered questions so an
+ * admin can see what material is missing and assign a cluster to a liaison.
+ * Questions are shown as stored, with personal details redacted.
+ */
+
+import { LowConfidenceReason, Prisma, UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { NotFoundError, ValidationError } from './errors';
+import { cosineSimilarity, getEmbeddingProvider } from './embeddings';
+import { SearchResult } from './knowledge-base';
+
+// Answers whose best source is below this similarity, with no keyword match, are weakly grounded
+export const WEAK_SOURCE_SCORE = 0.35;
+
+// Questions at least this similar (cosine) are grouped together. The default
+// suits the local embedding provider; model embeddings need a higher value (~0.8).
+export const CLUSTER_SIMILARITY = parseFloat(process.env.KNOWLEDGE_GAP_CLUSTER_SIMILARITY || '0.4');
+
+// Weight of a question halves every this many days when ranking clusters
+const RECENCY_HALF_LIFE_DAYS = 14;
+
+// Most recent unassigned questions embedded and clustered for the report
+export const MAX_REPORT_QUESTIONS = 500;
+
+// Phrases the system prompt asks the model to use when it can't answer
+const UNSURE_PATTERNS = [
+  /\b(don't|do not) have (enough|sufficient|specific) information\b/i,
+  /\bnot enough information\b/i,
+  /\b(couldn't|could not|can't|cannot|unable to) find\b/i,
+  /\b(isn't|is not|aren't|are not) (covered|addressed) (in|by) the (provided|available)\b/i,
+  /\bno (relevant|specific) (information|guidance|documents?)\b/i,
+  /\b(can't|cannot) (answer|provide a confident answer)\b/i,
+];
+
+export interface GapQuestion {
+  messageId: string; // The low-confidence answer
+  conversationId: string;
+  question: string;
+  reason: LowConfidenceReason;
+  askedAt: Date;
+}
+
+export interface GapCluster {
+  key: string; // Id of the most recent answer in the cluster
+  question: string; // Most recent question, as a label
+  questions: GapQuestion[]; // Newest first
+  count: number;
+  lastAskedAt: Date;
+  score: number; // Frequency weighted by recency
+  reasons: Partial<Record<LowConfidenceReason, number>>;
+}
+
+/**
+ * Why an answer is low confidence, or null if it looks grounded
+ */
+export function assessAnswerConfidence(answer: string, sources: SearchResult[]): LowConfidenceReason | null {
+  if (sources.length === 0) {
+    return LowConfidenceReason.NO_SOURCES;
+  }
+
+  if (UNSURE_PATTERNS.some((pattern) => pattern.test(answer))) {
+    return LowConfidenceReason.MODEL_UNSURE;
+  }
+
+  const weak = sources.every(
+    (source) => source.keywordScore === null && (source.semanticScore ?? 0) < WEAK_SOURCE_SCORE
+  );
+  return weak ? LowConfidenceReason.WEAK_SOURCES : null;
+}
+
+/**
+ * Group similar questions
+ * Greedy single pass, newest first: each question joins the first cluster
+ * whose label question it is similar enough to, or starts a new one.
+ */
+export async function clusterGapQuestions(questions: GapQuestion[], now: Date = new Date()): Promise<GapCluster[]> {
+  if (questions.length === 0) return [];
+
+  const sorted = [...questions].sort((a, b) => b.askedAt.getTime() - a.askedAt.getTime());
+  const vectors = await getEmbeddingProvider().embed(sorted.map((item) => item.question));
+
+  const clusters: { vector: number[]; questions: GapQuestion[] }[] = [];
+
+  sorted.forEach((item, idx) => {
+    const match = clusters.find((cluster) => cosineSimilarity(cluster.vector, vectors[idx]) >= CLUSTER_SIMILARITY);
+    if (match) {
+      match.questions.push(item);
+    } else {
+      clusters.push({ vector: vectors[idx], questions: [item] });
+    }
+  });
+
+  return clusters
+    .map(({ questions: members }) => {
+      const reasons: GapCluster['reasons'] = {};
+      members.forEach((item) => {
+        reasons[item.reason] = (reasons[item.reason] ?? 0) + 1;
+      });
+
+      const score = members.reduce((sum, item) => {
+        const ageDays = (now.getTime() - item.askedAt.getTime()) / 86_400_000;
+        return sum + Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+      }, 0);
+
+      return {
+        key: members[0].messageId,
+        question: members[0].question,
+        questions: members,
+        count: members.length,
+        lastAskedAt: members[0].askedAt,
+        score,
+        reasons,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.count - a.count);
+}
+
+/**
+ * Low-confidence answers matching the filter, newest first up to a limit, each
+ * paired with the question that prompted it
+ */
+async function loadGapQuestions(where: Prisma.ChatbotMessageWhereInput, take?: number): Promise<GapQuestion[]> {
+  const answers = await prisma.chatbotMessage.findMany({
+    where: { ...where, role: 'ASSISTANT', lowConfidenceReason: { not: null } },
+    select: { id: true, conversationId: true, lowConfidenceReason: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+
+  if (answers.length === 0) return [];
+
+  const userMessages = await prisma.chatbotMessage.findMany({
+    where: {
+      role: 'USER',
+      conversationId: { in: Array.from(new Set(answers.map((answer) => answer.conversationId))) },
+      createdAt: { lte: answers[0].createdAt },
+    },
+    select: { conversationId: true, content: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return answers.flatMap((answer) => {
+    // The latest member message before the answer
+    const question = userMessages.find(
+      (msg) => msg.conversationId === answer.conversationId && msg.createdAt < answer.createdAt
+    );
+    return question
+      ? [
+          {
+            messageId: answer.id,
+            conversationId: answer.conversationId,
+            question: question.content,
+            reason: answer.lowConfidenceReason!,
+            askedAt: question.createdAt,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Unanswered questions since a date that aren't part of a gap yet, the most
+ * recent MAX_REPORT_QUESTIONS at most, since each report embeds them all
+ */
+export async function findUnassignedGapQuestions(since: Date): Promise<GapQuestion[]> {
+  return loadGapQuestions({ knowledgeGapId: null, createdAt: { gte: since } }, MAX_REPORT_QUESTIONS);
+}
+
+/**
+ * Questions recorded against a gap
+ */
+export async function findGapQuestions(knowledgeGapId: string): Promise<GapQuestion[]> {
+  return loadGapQuestions({ knowledgeGapId });
+}
+
+/**
+ * Record a cluster as a gap, either assigned to a liaison or dismissed
+ * Its answers drop out of the report from then on.
+ */
+export async function createKnowledgeGap(data: {
+  messageIds: string[];
+  title: string;
+  note?: string;
+  assignedToId?: string;
+  dismiss?: boolean;
+  createdById: string;
+}) {
+  if (!data.dismiss) {
+    const assignee = data.assignedToId
+      ? await prisma.user.findUnique({ where: { id: data.assignedToId } })
+      : null;
+
+    if (!assignee || !assignee.isActive || assignee.role !== UserRole.LIAISON) {
+      throw new ValidationError('Knowledge gaps can only be assigned to an active RTW Liaison');
+    }
+  }
+
+  const messages = await prisma.chatbotMessage.findMany({
+    where: { id: { in: data.messageIds }, role: 'ASSISTANT', lowConfidenceReason: { not: null } },
+    select: { id: true, knowledgeGapId: true },
+  });
+
+  if (messages.length === 0) {
+    throw new NotFoundError('No unanswered questions found');
+  }
+
+  if (messages.some((message) => message.knowledgeGapId)) {
+    throw new ValidationError('Some of these questions are already part of a knowledge gap');
+  }
+
+  return prisma.knowledgeGap.create({
+    data: {
+      title: data.title,
+      note: data.note,
+      status: data.dismiss ? 'DISMISSED' : 'ASSIGNED',
+      assignedToId: data.dismiss ? null : data.assignedToId,
+      createdById: data.createdById,
+      messages: { connect: messages.map((message) => ({ id: message.id })) },
+    },
+    include: {
+      assignedTo: { select: { id: true, fullName: true, email: true } },
+      _count: { select: { messages: true } },
+    },
+  });
+}
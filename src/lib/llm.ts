@@ -0,0 +1,399 @@
+/**
+ * Language model providers for the chatbot
+ *
+ * The active provider is selected with LLM_PROVIDER:
+ * - anthropic (default) Claude via the Anthropic API, requires ANTHROPIC_API_KEY
+ * - stub      deterministic offline answers built from the retrieved sources,
+ *             for development and tests without network access
+ *
+ * LLM_MODEL, LLM_MAX_TOKENS and LLM_TEMPERATURE set the defaults for every
+ * request; individual requests may lower max tokens (e.g. summaries).
+ *
+ * Requests may offer tools. A completion that calls tools returns them in
+ * toolCalls; the caller runs them and sends the results back in a user
+ * message to continue.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { estimateTokens } from './chunking';
+import { tokenize } from './embeddings';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  toolCalls?: LlmToolCall[]; // Assistant messages that called tools
+  toolResults?: LlmToolResult[]; // User messages answering those calls
+}
+
+export interface LlmTool {
+  name: string;
+  description: string;
+  inputSchema: { type: 'object'; properties: Record<string, unknown>; required?: string[] };
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+  toolCallId: string;
+  content: string;
+  isError?: boolean;
+}
+
+// What a request is for; the stub answers differently per purpose
+export type LlmPurpose = 'answer' | 'summary' | 'rewrite' | 'title' | 'suggestions';
+
+export interface LlmRequest {
+  system: string;
+  messages: LlmMessage[];
+  purpose?: LlmPurpose;
+  maxTokens?: number;
+  temperature?: number;
+  tools?: LlmTool[];
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  model: string;
+  usage: LlmUsage;
+  toolCalls: LlmToolCall[]; // Empty unless the model is waiting on tool results
+}
+
+export interface LlmSettings {
+  maxTokens: number;
+  temperature?: number; // Provider default when unset
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+  // Yields text deltas and returns the complete response
+  stream(request: LlmRequest): AsyncGenerator<string, LlmCompletion>;
+}
+
+/**
+ * Claude via the Anthropic Messages API
+ */
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(
+    readonly model: string,
+    apiKey: string,
+    private settings: LlmSettings
+  ) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  private params(request: LlmRequest) {
+    const temperature = request.temperature ?? this.settings.temperature;
+    return {
+      model: this.model,
+      max_tokens: Math.min(request.maxTokens ?? this.settings.maxTokens, this.settings.maxTokens),
+      system: request.system,
+      messages: request.messages.map(toAnthropicMessage),
+      ...(temperature !== undefined && { temperature }),
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema,
+        })),
+      }),
+    };
+  }
+
+  private completion(message: Anthropic.Message, text: string): LlmCompletion {
+    return {
+      text,
+      model: message.model,
+      usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+      toolCalls: message.content.flatMap((block) =>
+        block.type === 'tool_use'
+          ? [{ id: block.id, name: block.name, input: (block.input ?? {}) as Record<string, unknown> }]
+          : []
+      ),
+    };
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const response = await this.client.messages.create(this.params(request), { signal: request.signal });
+    const text = response.content.map((block) => (block.type === 'text' ? block.text : '')).join('');
+
+    return this.completion(response, text);
+  }
+
+  async *stream(request: LlmRequest): AsyncGenerator<string, LlmCompletion> {
+    const stream = this.client.messages.stream(this.params(request), { signal: request.signal });
+
+    let text = '';
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        text += event.delta.text;
+        yield event.delta.text;
+      }
+    }
+
+    return this.completion(await stream.finalMessage(), text);
+  }
+}
+
+function toAnthropicMessage(message: LlmMessage): Anthropic.MessageParam {
+  if (message.toolResults?.length) {
+    return {
+      role: 'user',
+      content: message.toolResults.map((result) => ({
+        type: 'tool_result' as const,
+        tool_use_id: result.toolCallId,
+        content: result.content,
+        ...(result.isError && { is_error: true }),
+      })),
+    };
+  }
+
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: [
+        ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+        ...message.toolCalls.map((call) => ({
+          type: 'tool_use' as const,
+          id: call.id,
+          name: call.name,
+          input: call.input,
+        })),
+      ],
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+interface PromptSource {
+  number: number;
+  content: string;
+}
+
+// Matches the "[Source n: label (TYPE)]" headers the chatbot puts in the system prompt
+const SOURCE_HEADER = /^\[Source (\d+): .+\]\s*$/gm;
+
+/**
+ * Deterministic offline provider
+ *
+ * Answers cite the sources from the system prompt that best overlap the
+ * question, quoting their opening sentence, and say so when nothing was
+ * retrieved. Summaries keep the most recent text that fits. Query rewrites
+ * prefix the latest message with the member's previous one. Titles are the
+ * question's first few words, and suggested follow-ups ask about each source
+ * listed in the request. When the chatbot
+ * tools are offered, questions that obviously need one (a weight limit with a
+ * job or bridge assignment, "my escalations", a forum post link) call it once
+ * and the answer quotes the result. The same request always produces the same
+ * response.
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub';
+  readonly model = 'stub-v1';
+
+  constructor(private settings: LlmSettings = { maxTokens: 2048 }) {}
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const toolCalls = this.chooseTools(request);
+    const text = toolCalls.length > 0 ? '' : this.respond(request);
+    return { text, model: this.model, usage: this.usage(request, text), toolCalls };
+  }
+
+  async *stream(request: LlmRequest): AsyncGenerator<string, LlmCompletion> {
+    const toolCalls = this.chooseTools(request);
+    const text = toolCalls.length > 0 ? '' : this.respond(request);
+
+    // A few words at a time, like a real stream
+    const words = text.split(/(?<=\s)/);
+    for (let i = 0; i < words.length; i += 3) {
+      request.signal?.throwIfAborted();
+      yield words.slice(i, i + 3).join('');
+    }
+
+    return { text, model: this.model, usage: this.usage(request, text), toolCalls };
+  }
+
+  private respond(request: LlmRequest): string {
+    const maxChars = Math.min(request.maxTokens ?? this.settings.maxTokens, this.settings.maxTokens) * 4;
+    const lastUserMessage = latestQuestion(request.messages);
+
+    const text =
+      request.purpose === 'summary'
+        ? this.summarize(lastUserMessage, maxChars)
+        : request.purpose === 'rewrite'
+          ? this.rewrite(lastUserMessage)
+          : request.purpose === 'title'
+            ? this.title(lastUserMessage)
+            : request.purpose === 'suggestions'
+              ? this.suggest(lastUserMessage)
+              : this.answer(lastUserMessage, parseSources(request.system), request.messages.at(-1)?.toolResults ?? []);
+
+    return text.length > maxChars ? text.slice(0, maxChars) : text;
+  }
+
+  // Tools are matched by name, and only called once per question
+  private chooseTools(request: LlmRequest): LlmToolCall[] {
+    const offered = new Set((request.tools ?? []).map((tool) => tool.name));
+    if (offered.size === 0 || request.messages.at(-1)?.toolResults) return [];
+
+    const question = latestQuestion(request.messages);
+    const pounds = question.match(/\b(\d+)\s*-?\s*(?:lbs?|pounds?)\b/i);
+    const postId = question.match(/\bposts?\/?\s*([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\b/i);
+
+    if (offered.has('search_physical_demands') && pounds && /\b(bridge|job|position|assignment)/i.test(question)) {
+      const input = { maxLiftPounds: parseInt(pounds[1]), ...(/\bbridge/i.test(question) && { documentType: 'BRIDGE' }) };
+      return [{ id: 'stub_search_physical_demands', name: 'search_physical_demands', input }];
+    }
+    if (offered.has('list_my_escalations') && /\bmy\b.*\bescalations?\b/i.test(question)) {
+      return [{ id: 'stub_list_my_escalations', name: 'list_my_escalations', input: {} }];
+    }
+    if (offered.has('get_forum_post') && postId) {
+      return [{ id: 'stub_get_forum_post', name: 'get_forum_post', input: { postId: postId[1] } }];
+    }
+    return [];
+  }
+
+  private answer(question: string, sources: PromptSource[], toolResults: LlmToolResult[]): string {
+    const lookups = toolResults.map((result) => `I looked this up: ${result.content.slice(0, 600)}`);
+    if (lookups.length > 0 && sources.length === 0) {
+      return lookups.join('\n\n');
+    }
+
+    if (sources.length === 0) {
+      return "I don't have enough information in the knowledge base to answer that confidently. Please consider escalating your question to your RTW Liaison.";
+    }
+
+    const questionTokens = new Set(tokenize(question));
+    const ranked = sources
+      .map((source) => ({
+        source,
+        overlap: tokenize(source.content).filter((token) => questionTokens.has(token)).length,
+      }))
+      .sort((a, b) => b.overlap - a.overlap || a.source.number - b.source.number)
+      .slice(0, 2)
+      .map(({ source }) => source);
+
+    return [
+      ...lookups,
+      'Based on the knowledge base:',
+      ...ranked.map((source) => `- ${firstSentence(source.content)} [Source ${source.number}]`),
+      'If your situation differs from what these sources describe, consider escalating to your RTW Liaison.',
+    ].join('\n\n');
+  }
+
+  private summarize(text: string, maxChars: number): string {
+    const flattened = text.replace(/\s+/g, ' ').trim();
+    return flattened.length > maxChars ? flattened.slice(flattened.length - maxChars) : flattened;
+  }
+
+  private rewrite(prompt: string): string {
+    const latest = prompt.split('Latest message:\n').pop()?.trim() || '';
+    const previous = Array.from(prompt.matchAll(/^Member: (.+)$/gm)).pop()?.[1];
+    return JSON.stringify({ query: previous ? `${previous} ${latest}` : latest, subQueries: [] });
+  }
+
+  // The first few words of the member's question
+  private title(transcript: string): string {
+    const question = transcript.match(/^Member: (.+)$/m)?.[1] ?? transcript;
+    return question.split(/\s+/).slice(0, 6).join(' ').replace(/[?.!,]+$/, '');
+  }
+
+  // One question per source, by title
+  private suggest(prompt: string): string {
+    const titles = Array.from(prompt.matchAll(/^\[Source \d+: (.+) \(\w+\)\]\s*$/gm), (match) => match[1]);
+    return JSON.stringify(titles.slice(0, 3).map((title) => `What else does ${title} say about this?`));
+  }
+
+  private usage(request: LlmRequest, text: string): LlmUsage {
+    const prompt = [request.system, ...request.messages.map((msg) => msg.content)].join('\n');
+    return { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) };
+  }
+}
+
+// The member's latest message, skipping tool results
+function latestQuestion(messages: LlmMessage[]): string {
+  return [...messages].reverse().find((msg) => msg.role === 'user' && !msg.toolResults)?.content || '';
+}
+
+function parseSources(system: string): PromptSource[] {
+  const headers = Array.from(system.matchAll(SOURCE_HEADER));
+
+  return headers.map((header, idx) => {
+    const start = header.index! + header[0].length;
+    const end = idx + 1 < headers.length ? headers[idx + 1].index! : system.length;
+    // Stop at the first blank line after the source text
+    const content = system.slice(start, end).trim().split(/\n\s*\n/)[0];
+    return { number: parseInt(header[1]), content };
+  });
+}
+
+function firstSentence(text: string): string {
+  const flattened = text.replace(/\s+/g, ' ').trim();
+  const match = flattened.match(/^.{20,300}?[.!?](?=\s|$)/);
+  return match ? match[0] : flattened.slice(0, 300);
+}
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Default request settings from the environment
+ */
+export function getLlmSettings(): LlmSettings {
+  const temperature = process.env.LLM_TEMPERATURE;
+  return {
+    maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '2048'),
+    temperature: temperature ? parseFloat(temperature) : undefined,
+  };
+}
+
+/**
+ * Get the configured language model provider
+ */
+export function getLlmProvider(): LlmProvider {
+  if (activeProvider) return activeProvider;
+
+  const providerName = process.env.LLM_PROVIDER || 'anthropic';
+  const settings = getLlmSettings();
+
+  switch (providerName) {
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error('ANTHROPIC_API_KEY is required for the anthropic LLM provider');
+      }
+      activeProvider = new AnthropicLlmProvider(
+        process.env.LLM_MODEL || 'claude-3-5-sonnet-20241022',
+        process.env.ANTHROPIC_API_KEY,
+        settings
+      );
+      break;
+    case 'stub':
+      activeProvider = new StubLlmProvider(settings);
+      break;
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Override the language model provider (used by scripts and tests)
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,166 @@
+/**
+ * Physical demands of job descriptions and bridge assignments
+ *
+ * Job descriptions state their physical demands in prose or short lists,
+ * e.g. "Lifting: up to 25 lbs, occasionally" or "Standing - constant". This
+ * reads them into structured requirements so positions can be matched against
+ * a member's work restrictions, e.g. "no lifting over 20 lbs" or "no kneeling".
+ *
+ * Frequencies follow the usual job-analysis scale: occasional is up to a third
+ * of the day, frequent up to two thirds, constant more than that.
+ */
+
+export const PHYSICAL_DEMANDS = [
+  'lifting',
+  'carrying',
+  'pushing_pulling',
+  'standing',
+  'walking',
+  'sitting',
+  'bending',
+  'kneeling',
+  'climbing',
+  'reaching_overhead',
+  'driving',
+] as const;
+
+export type PhysicalDemand = (typeof PHYSICAL_DEMANDS)[number];
+
+export const DEMAND_FREQUENCIES = ['never', 'occasional', 'frequent', 'constant'] as const;
+
+export type DemandFrequency = (typeof DEMAND_FREQUENCIES)[number];
+
+export interface DemandRequirement {
+  demand: PhysicalDemand;
+  pounds: number | null; // Heaviest weight stated, for lifting, carrying and pushing
+  frequency: DemandFrequency | null;
+  text: string; // The line it was read from
+}
+
+export interface WorkRestrictions {
+  maxLiftPounds?: number; // Lifting and carrying
+  maxPushPullPounds?: number;
+  noActivities?: PhysicalDemand[]; // Can't do at all
+  occasionalOnly?: PhysicalDemand[]; // At most occasionally
+}
+
+export interface RestrictionMatch {
+  fits: boolean;
+  conflicts: string[]; // Why it doesn't fit
+  notStated: PhysicalDemand[]; // Restricted demands the document doesn't mention
+}
+
+const DEMAND_PATTERNS: Record<PhysicalDemand, RegExp> = {
+  lifting: /\blift(s|ing|ed)?\b/i,
+  carrying: /\bcarr(y|ies|ying|ied)\b/i,
+  pushing_pulling: /\b(push(es|ing)?|pull(s|ing)?)\b/i,
+  standing: /\bstand(s|ing)?\b/i,
+  walking: /\bwalk(s|ing)?\b/i,
+  sitting: /\bsit(s|ting)?\b|\bseated\b/i,
+  bending: /\b(bend(s|ing)?|stoop(s|ing)?|twist(s|ing)?)\b/i,
+  kneeling: /\b(kneel(s|ing)?|crouch(es|ing)?|squat(s|ting)?)\b/i,
+  climbing: /\b(climb(s|ing)?|ladders?)\b/i,
+  reaching_overhead: /\b(reach(es|ing)?|overhead)\b/i,
+  driving: /\b(driv(e|es|ing)|operat(e|es|ing) (a )?(vehicle|forklift))\b/i,
+};
+
+const FREQUENCY_PATTERNS: [DemandFrequency, RegExp][] = [
+  ['never', /\b(never|not required|none)\b|^no\b/i],
+  ['constant', /\b(constant(ly)?|continuous(ly)?|67\s*-\s*100\s*%)/i],
+  ['frequent', /\b(frequent(ly)?|often|34\s*-\s*66\s*%)/i],
+  ['occasional', /\b(occasional(ly)?|rare(ly)?|seldom|intermittent(ly)?|as needed|0?\s*-\s*33\s*%|1\s*-\s*33\s*%)/i],
+];
+
+// Postgres regex for lines that may state a demand, so only those are loaded.
+// Deliberately loose; extractPhysicalDemands does the exact matching.
+export const DEMAND_LINE_FILTER =
+  'lift|carr|push|pull|stand|walk|sit|seated|bend|stoop|twist|kneel|crouch|squat|climb|ladder|reach|overhead|driv|operat';
+
+const WEIGHT_PATTERN = /(\d+(?:\.\d+)?)\s*(?:lbs?|pounds?)\b/gi;
+const WEIGHTED_DEMANDS: PhysicalDemand[] = ['lifting', 'carrying', 'pushing_pulling'];
+
+/**
+ * Physical demand requirements stated in a document
+ * Each line (or semicolon-separated clause) can state several demands, e.g.
+ * "Lifting/carrying: up to 50 lbs occasionally".
+ */
+export function extractPhysicalDemands(content: string): DemandRequirement[] {
+  const requirements: DemandRequirement[] = [];
+
+  for (const raw of content.split(/\n|;/)) {
+    const line = raw.trim();
+    if (!line || line.length > 300) continue;
+
+    const demands = (Object.keys(DEMAND_PATTERNS) as PhysicalDemand[]).filter((demand) =>
+      DEMAND_PATTERNS[demand].test(line)
+    );
+    if (demands.length === 0) continue;
+
+    const weights = Array.from(line.matchAll(WEIGHT_PATTERN), (match) => parseFloat(match[1]));
+    const frequency = FREQUENCY_PATTERNS.find(([, pattern]) => pattern.test(line))?.[0] ?? null;
+
+    // Without a weight or frequency the line is probably not about physical demands
+    if (weights.length === 0 && !frequency) continue;
+
+    for (const demand of demands) {
+      const weighted = WEIGHTED_DEMANDS.includes(demand);
+      requirements.push({
+        demand,
+        pounds: weighted && weights.length > 0 ? Math.max(...weights) : null,
+        frequency,
+        text: line,
+      });
+    }
+  }
+
+  return requirements;
+}
+
+function isActive(requirement: DemandRequirement): boolean {
+  return requirement.frequency !== 'never';
+}
+
+/**
+ * Whether a document's requirements fit a member's restrictions
+ * Demands a document doesn't state are reported rather than treated as conflicts.
+ */
+export function matchRestrictions(requirements: DemandRequirement[], restrictions: WorkRestrictions): RestrictionMatch {
+  const conflicts: string[] = [];
+  const restricted = new Set<PhysicalDemand>();
+
+  const checkWeight = (demands: PhysicalDemand[], limit: number | undefined) => {
+    if (limit === undefined) return;
+    demands.forEach((demand) => restricted.add(demand));
+    requirements
+      .filter((item) => demands.includes(item.demand) && isActive(item) && item.pounds !== null && item.pounds > limit)
+      .forEach((item) => conflicts.push(`${item.demand.replace('_', '/')} ${item.pounds} lbs exceeds ${limit} lbs`));
+  };
+
+  checkWeight(['lifting', 'carrying'], restrictions.maxLiftPounds);
+  checkWeight(['pushing_pulling'], restrictions.maxPushPullPounds);
+
+  for (const demand of restrictions.noActivities ?? []) {
+    restricted.add(demand);
+    if (requirements.some((item) => item.demand === demand && isActive(item))) {
+      conflicts.push(`requires ${demand.replace('_', ' ')}`);
+    }
+  }
+
+  for (const demand of restrictions.occasionalOnly ?? []) {
+    restricted.add(demand);
+    const item = requirements.find(
+      (entry) => entry.demand === demand && (entry.frequency === 'frequent' || entry.frequency === 'constant')
+    );
+    if (item) {
+      conflicts.push(`${demand.replace('_', ' ')} is ${item.frequency}`);
+    }
+  }
+
+  const stated = new Set(requirements.map((item) => item.demand));
+
+  return {
+    fits: conflicts.length === 0,
+    conflicts: Array.from(new Set(conflicts)),
+    notStated: Array.from(restricted).filter((demand) => !stated.has(demand)),
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Versioned system prompts
+ *
+ * The chatbot's instructions are stored as PromptTemplate versions so admins
+ * can change them without a deploy. A version starts as a draft, is published
+ * to go live (archiving the previous version), and an archived version can be
+ * published again to roll back. Until a version is published the built-in
+ * default is used.
+ *
+ * Templates use {{variable}} placeholders; see PROMPT_VARIABLES.
+ */
+
+import { Prisma, PromptTemplateStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { NotFoundError, ValidationError } from './errors';
+
+export const CHATBOT_SYSTEM_PROMPT = 'chatbot_system';
+
+export const PROMPT_VARIABLES = {
+  context: 'The retrieved source documents, each headed [Source n: title (TYPE)]',
+  summary: 'Summary of the earlier conversation, when there is one (empty otherwise)',
+  userRole: 'Role of the member asking, e.g. SD Member or RTW Liaison',
+  department: 'Department of the member asking',
+} as const;
+
+export type PromptVariable = keyof typeof PROMPT_VARIABLES;
+
+// Sources can't be cited unless the prompt includes them, and without the
+// summary long conversations lose everything before the recent messages
+const REQUIRED_VARIABLES: PromptVariable[] = ['context', 'summary'];
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const DEFAULT_CHATBOT_PROMPT = `You are an expert assistant for the SIA (State Insurance Authority) Return to Work (RTW) program. Your role is to help SD (Safety Division) members with questions about temporary and permanent work restrictions, both industrial and non-industrial cases.
+
+You have access to:
+- ADA/FEHA compliance materials
+- Historical Q&A with legal counsel
+- Job descriptions and bridge assignments
+- Approved forum discussions
+
+When answering:
+1. Base your responses on the provided context documents
+2. Cite the context documents inline, right after the statement they support, using their markers exactly as written: [Source 2], or [Source 1, 3] for several. Only cite sources listed below
+3. If the question requires legal interpretation beyond your knowledge, recommend escalating to legal counsel
+4. If the question is complex or you're uncertain, recommend escalating to the RTW Liaison
+5. Be clear, concise, and professional
+6. Focus on practical, actionable guidance
+7. Personal and medical details appear as placeholders such as [PERSON_1] or [MEDICAL_1]; use the placeholders as written and never guess what they stand for
+
+Context documents:
+{{context}}
+{{summary}}
+If you don't have enough information to provide a confident answer, say so and suggest escalation options.`;
+
+export interface ActivePrompt {
+  id: string | null; // Null for the built-in default
+  version: number | null;
+  body: string;
+}
+
+/**
+ * Fill in a template's placeholders; unknown placeholders are left as written
+ */
+export function renderPromptTemplate(body: string, values: Record<PromptVariable, string>): string {
+  return body.replace(PLACEHOLDER, (match, name: string) =>
+    name in values ? values[name as PromptVariable] : match
+  );
+}
+
+/**
+ * The known variables a template uses
+ */
+export function usedPromptVariables(body: string): PromptVariable[] {
+  const used = new Set(Array.from(body.matchAll(PLACEHOLDER), (match) => match[1]));
+  return (Object.keys(PROMPT_VARIABLES) as PromptVariable[]).filter((name) => used.has(name));
+}
+
+/**
+ * Throw ValidationError if a template uses unknown placeholders or leaves out
+ * a required one
+ */
+export function validatePromptTemplate(body: string): void {
+  const used = Array.from(body.matchAll(PLACEHOLDER), (match) => match[1]);
+
+  const unknown = Array.from(new Set(used.filter((name) => !(name in PROMPT_VARIABLES))));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown prompt variables: ${unknown.map((name) => `{{${name}}}`).join(', ')}`);
+  }
+
+  const missing = REQUIRED_VARIABLES.filter((name) => !used.includes(name));
+  if (missing.length > 0) {
+    throw new ValidationError(`The prompt must include ${missing.map((name) => `{{${name}}}`).join(', ')}`);
+  }
+}
+
+/**
+ * The published version of a prompt, or the built-in default
+ */
+export async function getPublishedPrompt(name: string = CHATBOT_SYSTEM_PROMPT): Promise<ActivePrompt> {
+  const template = await prisma.promptTemplate.findFirst({
+    where: { name, status: PromptTemplateStatus.PUBLISHED },
+    select: { id: true, version: true, body: true },
+  });
+
+  return template ?? { id: null, version: null, body: DEFAULT_CHATBOT_PROMPT };
+}
+
+/**
+ * A specific version, e.g. a draft to evaluate before publishing
+ */
+export async function getPromptVersion(id: string): Promise<ActivePrompt> {
+  const template = await prisma.promptTemplate.findUnique({
+    where: { id },
+    select: { id: true, version: true, body: true },
+  });
+
+  if (!template) {
+    throw new NotFoundError('Prompt version not found');
+  }
+  return template;
+}
+
+/**
+ * Hold a transaction-scoped lock on a prompt name, so drafts and publishes of
+ * the same prompt run one at a time. An advisory lock also covers a name that
+ * has no versions yet, where there is no row to lock.
+ */
+async function lockPromptName(tx: Prisma.TransactionClient, name: string): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`prompt_templates:${name}`}))`;
+}
+
+/**
+ * Save a new draft as the next version of a prompt
+ */
+export async function createPromptDraft(data: {
+  name?: string;
+  body: string;
+  note?: string;
+  createdById: string;
+}) {
+  validatePromptTemplate(data.body);
+  const name = data.name ?? CHATBOT_SYSTEM_PROMPT;
+
+  return prisma.$transaction(async (tx) => {
+    await lockPromptName(tx, name);
+
+    const latest = await tx.promptTemplate.aggregate({
+      where: { name },
+      _max: { version: true },
+    });
+
+    return tx.promptTemplate.create({
+      data: {
+        name,
+        version: (latest._max.version ?? 0) + 1,
+        body: data.body,
+        note: data.note,
+        createdById: data.createdById,
+      },
+    });
+  });
+}
+
+/**
+ * Make a version live, archiving the one it replaces
+ * Publishing an archived version rolls back to it.
+ */
+export async function publishPromptVersion(id: string, publishedById: string) {
+  const found = await prisma.promptTemplate.findUnique({
+    where: { id },
+    select: { name: true },
+  });
+
+  if (!found) {
+    throw new NotFoundError('Prompt version not found');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await lockPromptName(tx, found.name);
+
+    // Read again under the lock; another admin may have just published it
+    const template = await tx.promptTemplate.findUnique({ where: { id } });
+    if (!template) {
+      throw new NotFoundError('Prompt version not found');
+    }
+    if (template.status === PromptTemplateStatus.PUBLISHED) {
+      throw new ValidationError('This version is already published');
+    }
+
+    const previous = await tx.promptTemplate.findFirst({
+      where: { name: template.name, status: PromptTemplateStatus.PUBLISHED },
+      select: { id: true, version: true },
+    });
+
+    await tx.promptTemplate.updateMany({
+      where: { name: template.name, status: PromptTemplateStatus.PUBLISHED },
+      data: { status: PromptTemplateStatus.ARCHIVED },
+    });
+
+    const published = await tx.promptTemplate.update({
+      where: { id },
+      data: { status: PromptTemplateStatus.PUBLISHED, publishedById, publishedAt: new Date() },
+    });
+
+    return { template: published, previous };
+  });
+}
+
+export interface PromptVersionStats {
+  promptTemplateId: string | null; // Null for answers from the built-in default
+  answers: number;
+  lowConfidence: number;
+  helpful: number;
+  notHelpful: number;
+}
+
+/**
+ * Answer counts, low-confidence answers and member feedback for each version
+ */
+export async function getPromptVersionStats(): Promise<PromptVersionStats[]> {
+  const rows = await prisma.$queryRaw<
+    { promptTemplateId: string | null; answers: bigint; lowConfidence: bigint; helpful: bigint; notHelpful: bigint }[]
+  >`
+    SELECT m.prompt_template_id AS "promptTemplateId",
+           COUNT(*) AS answers,
+           COUNT(m.low_confidence_reason) AS "lowConfidence",
+           COUNT(f.id) FILTER (WHERE f.rating = 'HELPFUL') AS helpful,
+           COUNT(f.id) FILTER (WHERE f.rating = 'NOT_HELPFUL') AS "notHelpful"
+    FROM chatbot_messages m
+    LEFT JOIN chatbot_message_feedback f ON f.message_id = m.id
+    WHERE m.role = 'ASSISTANT'
+    GROUP BY m.prompt_template_id
+  `;
+
+  return rows.map((row) => ({
+    promptTemplateId: row.promptTemplateId,
+    answers: Number(row.answers),
+    lowConfidence: Number(row.lowConfidence),
+    helpful: Number(row.helpful),
+    notHelpful: Number(row.notHelpful),
+  }));
+}
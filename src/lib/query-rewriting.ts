@@ -0,0 +1,163 @@
+/**
+ * Conversation-aware query rewriting for knowledge base search
+ *
+ * Follow-ups such as "what about if it's permanent?" mean little on their own.
+ * Before searching, the latest message is rewritten into a standalone query
+ * using the recent turns, plus up to MAX_SUB_QUERIES sub-queries when it asks
+ * several things at once.
+ *
+ * QUERY_REWRITE_MODE selects how:
+ * - llm (default) ask the configured LLM provider, falling back to rules if
+ *                 it fails or returns something unusable
+ * - rules         rule-based rewriting only
+ * - off           search with the message as written
+ */
+
+import { getLlmProvider, LlmProvider } from './llm';
+import { logger } from './logger';
+import { tokenize } from './embeddings';
+import { ChatMessage, formatTranscript } from './conversation-context';
+
+export type QueryRewriteMethod = 'none' | 'llm' | 'rules';
+
+export interface RewrittenQuery {
+  query: string;
+  subQueries: string[];
+  method: QueryRewriteMethod;
+}
+
+const MAX_SUB_QUERIES = 3;
+const MAX_QUERY_LENGTH = 500;
+
+// Openings and references that only make sense against the previous question
+const FOLLOW_UP_OPENING = /^(what|how) about\b|^(and|but|also|so|or|then)\b|^(what|how) if\b/i;
+const FOLLOW_UP_REFERENCE = /\b(it|its|it's|that|this|those|these|they|them|same|there)\b/i;
+const FOLLOW_UP_MAX_TERMS = 4;
+
+const REWRITE_SYSTEM_PROMPT = `You rewrite an SD member's latest message into a standalone search query for the RTW program knowledge base (ADA/FEHA compliance material, legal Q&A, job descriptions, bridge assignments and forum discussions).
+
+Resolve references such as "it", "that" or "what about" from the conversation so the query makes sense on its own. Keep form numbers, statute sections, job classifications and placeholders such as [PERSON_1] exactly as written. If the message asks several distinct questions, also give one sub-query per question (at most ${MAX_SUB_QUERIES}).
+
+Respond with JSON only, in this form:
+{"query": "standalone query", "subQueries": ["sub-query", "..."]}`;
+
+function clean(query: string): string {
+  return query.replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_LENGTH);
+}
+
+/**
+ * Separate questions in a message, when it asks more than one
+ */
+function splitQuestions(message: string): string[] {
+  const questions = message
+    .split(/(?<=\?)\s+/)
+    .map(clean)
+    .filter((question) => tokenize(question).length > 0);
+
+  return questions.length > 1 ? questions.slice(0, MAX_SUB_QUERIES) : [];
+}
+
+/**
+ * Whether a message depends on the previous question to make sense
+ */
+export function isFollowUp(message: string): boolean {
+  return (
+    FOLLOW_UP_OPENING.test(message.trim()) ||
+    FOLLOW_UP_REFERENCE.test(message) ||
+    tokenize(message).length <= FOLLOW_UP_MAX_TERMS
+  );
+}
+
+/**
+ * Rule-based rewrite
+ * Follow-ups are prefixed with the member's previous question so its subject
+ * carries over; other messages are searched as written.
+ */
+export function rewriteQueryWithRules(message: string, history: ChatMessage[]): RewrittenQuery {
+  const previousQuestion = [...history].reverse().find((msg) => msg.role === 'user')?.content;
+  const subQueries = splitQuestions(message);
+
+  if (!previousQuestion || !isFollowUp(message)) {
+    return { query: clean(message), subQueries, method: 'rules' };
+  }
+
+  const rest = message.trim().replace(FOLLOW_UP_OPENING, '').trim();
+  return {
+    query: clean(`${previousQuestion} ${rest || message}`),
+    subQueries: subQueries.map((question) => clean(`${previousQuestion} ${question}`)),
+    method: 'rules',
+  };
+}
+
+/**
+ * Parse the model's JSON reply, or null if it isn't usable
+ */
+function parseRewrite(text: string): Omit<RewrittenQuery, 'method'> | null {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json);
+    if (typeof parsed.query !== 'string' || !clean(parsed.query)) return null;
+
+    const subQueries = Array.isArray(parsed.subQueries)
+      ? parsed.subQueries
+          .filter((query: unknown): query is string => typeof query === 'string')
+          .map(clean)
+          .filter(Boolean)
+      : [];
+
+    return { query: clean(parsed.query), subQueries: subQueries.slice(0, MAX_SUB_QUERIES) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Standalone search query for the latest message
+ * The history should be the turns before the message, as stored (redacted).
+ */
+export async function rewriteSearchQuery(
+  message: string,
+  history: ChatMessage[],
+  summary: string | null = null,
+  llm: LlmProvider = getLlmProvider()
+): Promise<RewrittenQuery> {
+  const mode = process.env.QUERY_REWRITE_MODE || 'llm';
+
+  // Nothing to resolve against on the first message
+  if (mode === 'off' || (history.length === 0 && !summary)) {
+    return { query: clean(message), subQueries: splitQuestions(message), method: 'none' };
+  }
+
+  if (mode === 'llm') {
+    try {
+      const { text } = await llm.complete({
+        purpose: 'rewrite',
+        maxTokens: 300,
+        temperature: 0,
+        system: REWRITE_SYSTEM_PROMPT,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              summary ? `Summary of the earlier conversation:\n${summary}\n` : '',
+              `Recent conversation:\n${formatTranscript(history)}`,
+              `\nLatest message:\n${message}`,
+            ].join('\n'),
+          },
+        ],
+      });
+
+      const rewrite = parseRewrite(text);
+      if (rewrite) {
+        return { ...rewrite, method: 'llm' };
+      }
+      logger.warn('Query rewrite returned no usable query, using rules', { response: text.slice(0, 200) });
+    } catch (error) {
+      logger.error('Query rewrite failed, using rules', error);
+    }
+  }
+
+  return rewriteQueryWithRules(message, history);
+}
@@ -0,0 +1,258 @@
+/**
+ * PII and medical-detail redaction for chatbot prompts
+ *
+ * Sensitive values in member messages are swapped for placeholders such as
+ * [PERSON_1] before anything is sent to the model or stored. Placeholders are
+ * stable within a conversation, so the model can still refer to "[PERSON_1]"
+ * across turns, and the original values are restored only in what the member
+ * sees. The placeholder-to-value mapping lives in ChatbotRedaction rows.
+ */
+
+import { RedactionType } from '@prisma/client';
+import { prisma } from './prisma';
+
+export interface RedactionEntry {
+  entityType: RedactionType;
+  placeholder: string;
+  originalValue: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  redactions: RedactionEntry[]; // Entries used in this text, new or reused
+}
+
+// Placeholder -> original value for a conversation
+export type RedactionVault = Map<string, RedactionEntry>;
+
+interface Detection {
+  entityType: RedactionType;
+  start: number;
+  end: number;
+}
+
+const PLACEHOLDER_PATTERN = /\[(PERSON|SSN|CLAIM_NUMBER|DATE_OF_BIRTH|PHONE|EMAIL|MEDICAL)_(\d+)\]/g;
+
+const DATE = String.raw`(?:\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?\s+\d{1,2},?\s+\d{4})`;
+const NAME = String.raw`[A-Z][a-z'’-]+(?:\s+[A-Z]\.)?(?:\s+[A-Z][a-z'’-]+){0,2}`;
+
+// Words that introduce a person's name in RTW discussions
+const NAME_CONTEXT = [
+  'employee', 'worker', 'member', 'officer', 'claimant', 'patient', 'supervisor',
+  'manager', 'coworker', 'co-worker', 'colleague', 'named', 'name is', 'called',
+];
+
+// Capitalized words that follow a name context but aren't names
+const NOT_NAMES = new Set([
+  'the', 'this', 'that', 'he', 'she', 'they', 'his', 'her', 'their', 'i', 'it', 'we', 'our',
+  'is', 'was', 'has', 'had', 'who', 'and', 'but', 'in', 'on', 'at', 'for', 'with', 'after',
+  'rtw', 'sd', 'sia', 'ada', 'feha', 'legal', 'hr',
+]);
+
+const MEDICAL_TERMS = [
+  'herniated disc', 'herniated disk', 'bulging disc', 'degenerative disc disease', 'sciatica',
+  'carpal tunnel', 'rotator cuff', 'torn meniscus', 'acl tear', 'tendonitis', 'tendinitis',
+  'plantar fasciitis', 'fracture', 'fractured', 'concussion', 'traumatic brain injury',
+  'spinal fusion', 'whiplash', 'arthritis', 'fibromyalgia', 'migraine', 'migraines',
+  'ptsd', 'post-traumatic stress', 'depression', 'anxiety', 'bipolar', 'schizophrenia',
+  'adhd', 'autism', 'diabetes', 'diabetic', 'epilepsy', 'seizure', 'seizures', 'cancer',
+  'chemotherapy', 'tumor', 'hiv', 'aids', 'hepatitis', 'multiple sclerosis', 'lupus',
+  'crohn', "crohn's disease", 'heart attack', 'stroke', 'hypertension', 'asthma', 'copd',
+  'pregnant', 'pregnancy', 'miscarriage', 'substance abuse', 'alcoholism', 'addiction',
+  'opioid', 'dialysis', 'amputation', 'paralysis',
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Case-insensitive first letter only, so the name that follows must still be capitalized
+function leadingCaseInsensitive(word: string): string {
+  return `[${word[0].toUpperCase()}${word[0]}]${escapeRegExp(word.slice(1))}`;
+}
+
+const MEDICAL_PATTERN = new RegExp(
+  String.raw`\b(?:${[...MEDICAL_TERMS].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})\b`,
+  'gi'
+);
+
+/**
+ * Find sensitive spans in text
+ */
+function detect(text: string): Detection[] {
+  const detections: Detection[] = [];
+
+  const add = (entityType: RedactionType, pattern: RegExp, group = 0) => {
+    for (const match of text.matchAll(pattern)) {
+      const value = match[group];
+      if (!value) continue;
+      if (entityType === RedactionType.PERSON && NOT_NAMES.has(value.split(/\s+/)[0].toLowerCase())) continue;
+      const start = match.index! + match[0].indexOf(value);
+      detections.push({ entityType, start, end: start + value.length });
+    }
+  };
+
+  add(RedactionType.EMAIL, /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g);
+  add(RedactionType.SSN, /\b\d{3}-\d{2}-\d{4}\b/g);
+  add(RedactionType.SSN, /\b(?:SSN|social security(?: number| no\.?)?)\s*[:#]?\s*(\d{9})\b/gi, 1);
+  add(RedactionType.PHONE, /(?:\+1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g);
+  add(
+    RedactionType.DATE_OF_BIRTH,
+    new RegExp(String.raw`\b(?:DOB|D\.O\.B\.|date of birth|birth ?date|born(?: on)?)\s*[:\-]?\s*(${DATE})`, 'gi'),
+    1
+  );
+  add(
+    RedactionType.CLAIM_NUMBER,
+    /\bclaim\s*(?:no\.?|number|num|#|id)?\s*[:#]?\s*((?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{4,})\b/gi,
+    1
+  );
+  add(RedactionType.PERSON, new RegExp(String.raw`\b(?:Mr|Mrs|Ms|Miss|Dr)\.?\s+(${NAME})`, 'g'), 1);
+  add(
+    RedactionType.PERSON,
+    new RegExp(
+      String.raw`\b(?:${NAME_CONTEXT.map(leadingCaseInsensitive).join('|')})\s*[:,]?\s+(${NAME})`,
+      'g'
+    ),
+    1
+  );
+  add(RedactionType.MEDICAL, MEDICAL_PATTERN);
+  add(
+    RedactionType.MEDICAL,
+    /\b(?:diagnosed with|diagnosis of|suffers from|suffering from|treated for|being treated for)\s+([a-z][a-z' -]{2,40}?)(?=[.,;:!?)]|\s+(?:and|but|so|which|who|since|after|in|on|at)\b|$)/gi,
+    1
+  );
+
+  return detections;
+}
+
+/**
+ * Keep the earliest, then longest, of overlapping detections
+ */
+function resolveOverlaps(detections: Detection[]): Detection[] {
+  const sorted = [...detections].sort((a, b) => a.start - b.start || b.end - a.end);
+  const result: Detection[] = [];
+
+  for (const detection of sorted) {
+    const last = result[result.length - 1];
+    if (last && detection.start < last.end) continue;
+    result.push(detection);
+  }
+
+  return result;
+}
+
+/**
+ * Replace sensitive values with placeholders, reusing any the conversation already has
+ */
+export function redactText(text: string, vault: RedactionVault = new Map()): RedactionResult {
+  const byValue = new Map<string, RedactionEntry>();
+  const counters = new Map<RedactionType, number>();
+
+  vault.forEach((entry) => {
+    byValue.set(`${entry.entityType}:${entry.originalValue.toLowerCase()}`, entry);
+    const index = parseInt(entry.placeholder.match(/_(\d+)\]$/)?.[1] || '0');
+    counters.set(entry.entityType, Math.max(counters.get(entry.entityType) ?? 0, index));
+  });
+
+  const detections = detect(text);
+
+  // Values redacted earlier in the conversation are redacted wherever they reappear
+  vault.forEach((entry) => {
+    const pattern = new RegExp(String.raw`\b${escapeRegExp(entry.originalValue)}\b`, 'gi');
+    for (const match of text.matchAll(pattern)) {
+      detections.push({ entityType: entry.entityType, start: match.index!, end: match.index! + match[0].length });
+    }
+  });
+
+  const used = new Map<string, RedactionEntry>();
+  let result = '';
+  let cursor = 0;
+
+  for (const detection of resolveOverlaps(detections)) {
+    const value = text.slice(detection.start, detection.end);
+    const key = `${detection.entityType}:${value.toLowerCase()}`;
+
+    let entry = byValue.get(key);
+    if (!entry) {
+      const index = (counters.get(detection.entityType) ?? 0) + 1;
+      counters.set(detection.entityType, index);
+      entry = {
+        entityType: detection.entityType,
+        placeholder: `[${detection.entityType}_${index}]`,
+        originalValue: value,
+      };
+      byValue.set(key, entry);
+    }
+
+    used.set(entry.placeholder, entry);
+    result += text.slice(cursor, detection.start) + entry.placeholder;
+    cursor = detection.end;
+  }
+
+  return {
+    text: result + text.slice(cursor),
+    redactions: [...used.values()],
+  };
+}
+
+/**
+ * Put original values back in place of placeholders
+ */
+export function restoreText(text: string, vault: RedactionVault): string {
+  if (vault.size === 0) return text;
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => vault.get(placeholder)?.originalValue ?? placeholder);
+}
+
+/**
+ * Restore placeholders in streamed text that may be split across chunks
+ */
+export function createStreamRestorer(vault: RedactionVault) {
+  let pending = '';
+
+  return {
+    push(chunk: string): string {
+      pending += chunk;
+      // Hold back a trailing "[..." that could be the start of a placeholder
+      const open = pending.lastIndexOf('[');
+      const holdFrom =
+        open !== -1 && !pending.includes(']', open) && pending.length - open <= 24 ? open : pending.length;
+      const ready = pending.slice(0, holdFrom);
+      pending = pending.slice(holdFrom);
+      return restoreText(ready, vault);
+    },
+    flush(): string {
+      const rest = restoreText(pending, vault);
+      pending = '';
+      return rest;
+    },
+  };
+}
+
+/**
+ * Load the placeholder mapping recorded for a conversation
+ */
+export async function loadRedactionVault(conversationId: string): Promise<RedactionVault> {
+  const redactions = await prisma.chatbotRedaction.findMany({
+    where: { conversationId },
+    select: { entityType: true, placeholder: true, originalValue: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return new Map(redactions.map((entry) => [entry.placeholder, entry]));
+}
+
+/**
+ * Add new entries to a vault
+ */
+export function extendVault(vault: RedactionVault, entries: RedactionEntry[]): RedactionVault {
+  const extended = new Map(vault);
+  entries.forEach((entry) => extended.set(entry.placeholder, entry));
+  return extended;
+}
+
+/**
+ * What was redacted, without the original values
+ */
+export function summarizeRedactions(entries: Pick<RedactionEntry, 'entityType' | 'placeholder'>[]) {
+  return entries.map(({ entityType, placeholder }) => ({ entityType, placeholder }));
+}
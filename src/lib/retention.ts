@@ -0,0 +1,373 @@
+/**
+ * Chatbot conversation retention
+ *
+ * Conversations hold members' medical and workplace discussion, so they are
+ * purged once they have been inactive for longer than the records retention
+ * schedule allows:
+ * - CHATBOT_RETENTION_DAYS is the window for every role, e.g. 730
+ * - CHATBOT_RETENTION_DAYS_BY_ROLE overrides it per role of the conversation's
+ *   owner, e.g. "MEMBER:365,LEGAL:2555"
+ * Conversations whose owner has no window are kept. Nothing is purged until
+ * one is configured.
+ *
+ * CHATBOT_RETENTION_ACTION chooses what happens to an expired conversation:
+ * - anonymize (default) removes the owner, title, summary, message text,
+ *   lookups, restorable redactions and feedback comments, but keeps message
+ *   metadata (sources, ratings, prompt version, cache status) for reporting
+ * - delete removes the conversation and everything stored with it
+ *
+ * Conversations on legal hold, or attached to an escalation that is still open,
+ * are never purged. Each batch is purged in one transaction with an audit log
+ * entry listing the conversations it covered. Usage records only keep plain
+ * conversation ids, so cost reports are unaffected.
+ *
+ * Escalating an answer copies the transcript, with personal details restored,
+ * into the escalation. CHATBOT_RETENTION_ESCALATION_COPIES chooses what happens
+ * to that copy once the escalation has been resolved or closed for longer than
+ * the requester's window:
+ * - expire (default) removes the transcript and the question and answer from
+ *   the description; the escalation itself and its resolution are kept
+ * - keep leaves it with the escalation records; dry runs still count them
+ * Copies of conversations on legal hold are kept either way.
+ *
+ * Run by `npm run chatbot:purge` on a schedule; see scripts/purge-chatbot-conversations.ts.
+ */
+
+import { EscalationStatus, Prisma, UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+
+export type RetentionAction = 'anonymize' | 'delete';
+export type EscalationCopyAction = 'expire' | 'keep';
+
+export const ANONYMIZED_CONTENT = '[Removed under the records retention policy]';
+
+export const EXPIRED_ESCALATION_DESCRIPTION =
+  'Escalated from a chatbot conversation. The question, answer and transcript were removed under the records retention policy.';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Escalations a liaison or counsel is still working on
+const OPEN_ESCALATION_STATUSES: EscalationStatus[] = [EscalationStatus.OPEN, EscalationStatus.IN_PROGRESS];
+const FINISHED_ESCALATION_STATUSES: EscalationStatus[] = [EscalationStatus.RESOLVED, EscalationStatus.CLOSED];
+
+export interface RetentionPolicy {
+  action: RetentionAction;
+  escalationCopies: EscalationCopyAction;
+  windows: Partial<Record<UserRole, number>>; // Days of inactivity, by owner role
+}
+
+export interface RetentionRoleReport {
+  role: UserRole;
+  retentionDays: number;
+  cutoff: Date;
+  expired: number; // Past the window and not exempt
+  onHold: number; // Past the window but on legal hold or in an open escalation
+  purged: number;
+  expiredEscalationCopies: number; // Transcripts in escalations finished before the cutoff
+  escalationCopiesPurged: number;
+}
+
+export interface RetentionReport {
+  action: RetentionAction;
+  escalationCopies: EscalationCopyAction;
+  dryRun: boolean;
+  startedAt: Date;
+  roles: RetentionRoleReport[];
+  batches: number;
+  purged: number;
+  escalationCopiesPurged: number;
+}
+
+function parseDays(value: string, name: string): number {
+  const days = Number(value);
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error(`${name} must be a whole number of days, got "${value}"`);
+  }
+  return days;
+}
+
+/**
+ * Retention policy from the environment
+ * Throws on malformed settings rather than purging with a window nobody meant.
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  const action = (process.env.CHATBOT_RETENTION_ACTION || 'anonymize').toLowerCase();
+  if (action !== 'anonymize' && action !== 'delete') {
+    throw new Error(`CHATBOT_RETENTION_ACTION must be anonymize or delete, got "${action}"`);
+  }
+
+  const escalationCopies = (process.env.CHATBOT_RETENTION_ESCALATION_COPIES || 'expire').toLowerCase();
+  if (escalationCopies !== 'expire' && escalationCopies !== 'keep') {
+    throw new Error(`CHATBOT_RETENTION_ESCALATION_COPIES must be expire or keep, got "${escalationCopies}"`);
+  }
+
+  const windows: Partial<Record<UserRole, number>> = {};
+
+  const defaultDays = process.env.CHATBOT_RETENTION_DAYS;
+  if (defaultDays) {
+    const days = parseDays(defaultDays, 'CHATBOT_RETENTION_DAYS');
+    for (const role of Object.values(UserRole)) {
+      windows[role] = days;
+    }
+  }
+
+  for (const entry of (process.env.CHATBOT_RETENTION_DAYS_BY_ROLE || '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const [role, days] = entry.split(':').map((part) => part.trim());
+    if (!Object.values(UserRole).includes(role as UserRole) || !days) {
+      throw new Error(`CHATBOT_RETENTION_DAYS_BY_ROLE entries must look like MEMBER:365, got "${entry}"`);
+    }
+    windows[role as UserRole] = parseDays(days, `Retention for ${role}`);
+  }
+
+  return { action, escalationCopies, windows };
+}
+
+/**
+ * Conversations owned by a role with no message since the cutoff
+ */
+function expiredWhere(role: UserRole, cutoff: Date): Prisma.ChatbotConversationWhereInput {
+  return {
+    anonymizedAt: null,
+    user: { role },
+    createdAt: { lt: cutoff },
+    messages: { none: { createdAt: { gte: cutoff } } },
+  };
+}
+
+const NOT_HELD: Prisma.ChatbotConversationWhereInput = {
+  legalHoldAt: null,
+  escalations: { none: { status: { in: OPEN_ESCALATION_STATUSES } } },
+};
+
+/**
+ * Escalations from a role's members holding a chatbot transcript, finished
+ * before the cutoff, whose conversation isn't on legal hold
+ */
+function expiredEscalationCopiesWhere(role: UserRole, cutoff: Date): Prisma.EscalationWhereInput {
+  return {
+    requester: { role },
+    chatbotContext: { not: Prisma.DbNull },
+    status: { in: FINISHED_ESCALATION_STATUSES },
+    AND: [
+      // Escalations closed without a resolution date count from their last update
+      { OR: [{ resolvedAt: { lt: cutoff } }, { resolvedAt: null, updatedAt: { lt: cutoff } }] },
+      { OR: [{ chatbotConversationId: null }, { chatbotConversation: { legalHoldAt: null } }] },
+    ],
+  };
+}
+
+/**
+ * Purge the oldest batch of conversations matching a filter, with its audit log entry
+ * Returns the ids purged; fewer than the batch size means none are left.
+ */
+async function purgeBatch(
+  where: Prisma.ChatbotConversationWhereInput,
+  action: RetentionAction,
+  batchSize: number,
+  actorId: string | null,
+  details: { role: UserRole; retentionDays: number; cutoff: Date }
+): Promise<string[]> {
+  return prisma.$transaction(async (tx) => {
+    const batch = await tx.chatbotConversation.findMany({
+      where,
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: batchSize,
+    });
+    const ids = batch.map((conversation) => conversation.id);
+    if (ids.length === 0) {
+      return ids;
+    }
+
+    if (action === 'delete') {
+      // Messages, redactions and feedback cascade; escalation copies expire separately
+      await tx.chatbotConversation.deleteMany({ where: { id: { in: ids } } });
+    } else {
+      await tx.chatbotRedaction.deleteMany({ where: { conversationId: { in: ids } } });
+      await tx.chatbotMessageFeedback.updateMany({
+        where: { message: { conversationId: { in: ids } } },
+        data: { comment: null },
+      });
+      await tx.chatbotMessage.updateMany({
+        where: { conversationId: { in: ids } },
+        data: {
+          content: ANONYMIZED_CONTENT,
+          searchQuery: Prisma.DbNull,
+          toolCalls: Prisma.DbNull,
+          suggestedQuestions: [],
+        },
+      });
+      await tx.chatbotConversation.updateMany({
+        where: { id: { in: ids } },
+        data: { userId: null, title: null, summary: null, summarizedThroughAt: null, anonymizedAt: new Date() },
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: actorId,
+        action: 'PURGE_CHATBOT_CONVERSATIONS',
+        entityType: 'CHATBOT_CONVERSATION',
+        metadata: {
+          action,
+          role: details.role,
+          retentionDays: details.retentionDays,
+          cutoff: details.cutoff.toISOString(),
+          count: ids.length,
+          conversationIds: ids,
+        },
+      },
+    });
+
+    return ids;
+  });
+}
+
+/**
+ * Remove the chatbot transcript from the oldest batch of expired escalations,
+ * with its audit log entry
+ */
+async function purgeEscalationCopyBatch(
+  where: Prisma.EscalationWhereInput,
+  batchSize: number,
+  actorId: string | null,
+  details: { role: UserRole; retentionDays: number; cutoff: Date }
+): Promise<string[]> {
+  return prisma.$transaction(async (tx) => {
+    const batch = await tx.escalation.findMany({
+      where,
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: batchSize,
+    });
+    const ids = batch.map((escalation) => escalation.id);
+    if (ids.length === 0) {
+      return ids;
+    }
+
+    // The description quotes the question and answer, so it goes too
+    await tx.escalation.updateMany({
+      where: { id: { in: ids } },
+      data: { chatbotContext: Prisma.DbNull, description: EXPIRED_ESCALATION_DESCRIPTION },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: actorId,
+        action: 'PURGE_ESCALATION_CHATBOT_COPIES',
+        entityType: 'ESCALATION',
+        metadata: {
+          role: details.role,
+          retentionDays: details.retentionDays,
+          cutoff: details.cutoff.toISOString(),
+          count: ids.length,
+          escalationIds: ids,
+        },
+      },
+    });
+
+    return ids;
+  });
+}
+
+/**
+ * Apply the retention policy, or with dryRun only report what it would purge
+ * Pass the admin running it as actorId; scheduled runs leave it null.
+ */
+export async function purgeExpiredConversations({
+  dryRun = false,
+  batchSize = DEFAULT_BATCH_SIZE,
+  actorId = null,
+  policy = getRetentionPolicy(),
+}: {
+  dryRun?: boolean;
+  batchSize?: number;
+  actorId?: string | null;
+  policy?: RetentionPolicy;
+} = {}): Promise<RetentionReport> {
+  const startedAt = new Date();
+  const report: RetentionReport = {
+    action: policy.action,
+    escalationCopies: policy.escalationCopies,
+    dryRun,
+    startedAt,
+    roles: [],
+    batches: 0,
+    purged: 0,
+    escalationCopiesPurged: 0,
+  };
+
+  for (const role of Object.values(UserRole)) {
+    const retentionDays = policy.windows[role];
+    if (!retentionDays) continue;
+
+    const cutoff = new Date(startedAt.getTime() - retentionDays * DAY_MS);
+    const expired = expiredWhere(role, cutoff);
+
+    const expiredCopies = expiredEscalationCopiesWhere(role, cutoff);
+
+    const [expiredCount, onHold, expiredEscalationCopies] = await Promise.all([
+      prisma.chatbotConversation.count({ where: { AND: [expired, NOT_HELD] } }),
+      prisma.chatbotConversation.count({ where: { AND: [expired, { NOT: NOT_HELD }] } }),
+      prisma.escalation.count({ where: expiredCopies }),
+    ]);
+    const roleReport: RetentionRoleReport = {
+      role,
+      retentionDays,
+      cutoff,
+      expired: expiredCount,
+      onHold,
+      purged: 0,
+      expiredEscalationCopies,
+      escalationCopiesPurged: 0,
+    };
+    report.roles.push(roleReport);
+
+    if (dryRun) continue;
+
+    while (policy.escalationCopies === 'expire' && expiredEscalationCopies > 0) {
+      const ids = await purgeEscalationCopyBatch(expiredCopies, batchSize, actorId, { role, retentionDays, cutoff });
+      if (ids.length === 0) break;
+
+      report.batches++;
+      roleReport.escalationCopiesPurged += ids.length;
+      report.escalationCopiesPurged += ids.length;
+      if (ids.length < batchSize) break;
+    }
+
+    while (expiredCount > 0) {
+      const ids = await purgeBatch({ AND: [expired, NOT_HELD] }, policy.action, batchSize, actorId, {
+        role,
+        retentionDays,
+        cutoff,
+      });
+      if (ids.length === 0) break;
+
+      report.batches++;
+      roleReport.purged += ids.length;
+      report.purged += ids.length;
+      if (ids.length < batchSize) break;
+    }
+  }
+
+  logger.info(dryRun ? 'Chatbot retention dry run' : 'Chatbot retention purge', {
+    action: report.action,
+    escalationCopies: report.escalationCopies,
+    batches: report.batches,
+    purged: report.purged,
+    escalationCopiesPurged: report.escalationCopiesPurged,
+    roles: report.roles.map(({ role, expired, onHold, purged, expiredEscalationCopies }) => ({
+      role,
+      expired,
+      onHold,
+      purged,
+      expiredEscalationCopies,
+    })),
+  });
+
+  return report;
+}
@@ -0,0 +1,44 @@
+/**
+ * Server-Sent Events helpers shared by streaming routes and their clients
+ */
+
+export interface SseEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Encode a named event with a JSON payload
+ */
+export function encodeSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse complete events out of a buffer of received text
+ * Returns the parsed events and any trailing partial event to keep buffering
+ */
+export function parseSseEvents(buffer: string): { events: SseEvent[]; rest: string } {
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events: SseEvent[] = [];
+
+  for (const block of blocks) {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+
+    if (dataLines.length > 0) {
+      events.push({ event, data: JSON.parse(dataLines.join('\n')) });
+    }
+  }
+
+  return { events, rest };
+}
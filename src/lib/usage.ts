@@ -0,0 +1,303 @@
+/**
+ * Chatbot token usage accounting and quotas
+ *
+ * Every language model call made for a member is metered and stored with an
+ * estimated cost, so spend can be attributed by user, department and day.
+ * Admins can set daily and monthly token quotas per role or department; the
+ * message route checks them before answering. Days and months are UTC.
+ *
+ * Prices are per million tokens. Set LLM_INPUT_PRICE_PER_MTOK and
+ * LLM_OUTPUT_PRICE_PER_MTOK for models not in the table below.
+ */
+
+import { Prisma, UsageQuota, UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { QuotaExceededError } from './errors';
+import { logger } from './logger';
+import { estimateTokens } from './chunking';
+import { LlmCompletion, LlmProvider, LlmPurpose, LlmRequest } from './llm';
+
+export interface LlmUsageEntry {
+  purpose: LlmPurpose;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+}
+
+// USD per million input / output tokens, matched by model name prefix
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-opus', input: 15, output: 75 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+];
+
+/**
+ * Estimated cost of a call in USD
+ * Unknown models (including the stub) cost nothing unless prices are configured.
+ */
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const configuredInput = process.env.LLM_INPUT_PRICE_PER_MTOK;
+  const configuredOutput = process.env.LLM_OUTPUT_PRICE_PER_MTOK;
+  const known = MODEL_PRICES.find((price) => model.startsWith(price.prefix));
+
+  const input = configuredInput ? parseFloat(configuredInput) : known?.input ?? 0;
+  const output = configuredOutput ? parseFloat(configuredOutput) : known?.output ?? 0;
+
+  return (inputTokens * input + outputTokens * output) / 1_000_000;
+}
+
+/**
+ * Collects the usage of every call made through the providers it wraps
+ */
+export class UsageMeter {
+  readonly entries: LlmUsageEntry[] = [];
+
+  wrap(provider: LlmProvider): LlmProvider {
+    const record = (request: LlmRequest, completion: LlmCompletion) =>
+      this.entries.push({
+        purpose: request.purpose ?? 'answer',
+        provider: provider.name,
+        model: completion.model,
+        inputTokens: completion.usage.inputTokens,
+        outputTokens: completion.usage.outputTokens,
+        estimated: false,
+      });
+
+    // Cancelled streams never report usage, but the tokens were still spent
+    const estimate = (request: LlmRequest, text: string) =>
+      this.entries.push({
+        purpose: request.purpose ?? 'answer',
+        provider: provider.name,
+        model: provider.model,
+        inputTokens: estimateTokens([request.system, ...request.messages.map((msg) => msg.content)].join('\n')),
+        outputTokens: estimateTokens(text),
+        estimated: true,
+      });
+
+    return {
+      name: provider.name,
+      model: provider.model,
+      async complete(request) {
+        const completion = await provider.complete(request);
+        record(request, completion);
+        return completion;
+      },
+      async *stream(request) {
+        const stream = provider.stream(request);
+        let text = '';
+        let finished = false;
+
+        try {
+          let next = await stream.next();
+          while (!next.done) {
+            text += next.value;
+            yield next.value;
+            next = await stream.next();
+          }
+          finished = true;
+          record(request, next.value);
+          return next.value;
+        } finally {
+          if (!finished && (text || request.signal?.aborted)) {
+            estimate(request, text);
+          }
+        }
+      },
+    };
+  }
+}
+
+/**
+ * Store metered usage against the user it was spent for
+ * Failures are logged rather than thrown so accounting never loses an answer.
+ */
+export async function recordLlmUsage(
+  userId: string,
+  entries: LlmUsageEntry[],
+  context: { conversationId?: string; messageId?: string } = {}
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, department: true },
+    });
+    if (!user) return;
+
+    await prisma.chatbotUsage.createMany({
+      data: entries.map((entry) => ({
+        userId,
+        role: user.role,
+        department: user.department,
+        conversationId: context.conversationId,
+        messageId: context.messageId,
+        purpose: entry.purpose,
+        provider: entry.provider,
+        model: entry.model,
+        inputTokens: entry.inputTokens,
+        outputTokens: entry.outputTokens,
+        costUsd: estimateCostUsd(entry.model, entry.inputTokens, entry.outputTokens),
+        estimated: entry.estimated,
+      })),
+    });
+  } catch (error) {
+    logger.error('Failed to record chatbot usage', error);
+  }
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Usage a quota counts for a user: their own for role quotas, their
+ * department's for department quotas
+ */
+function quotaUsageFilter(
+  quota: UsageQuota,
+  user: { id: string; department: string | null }
+): Prisma.ChatbotUsageWhereInput {
+  if (!quota.department) {
+    return { userId: user.id };
+  }
+  return {
+    department: { equals: user.department ?? '', mode: 'insensitive' },
+    ...(quota.role && { role: quota.role }),
+  };
+}
+
+async function tokensUsed(where: Prisma.ChatbotUsageWhereInput, since: Date): Promise<number> {
+  const result = await prisma.chatbotUsage.aggregate({
+    where: { ...where, createdAt: { gte: since } },
+    _sum: { inputTokens: true, outputTokens: true },
+  });
+  return (result._sum.inputTokens ?? 0) + (result._sum.outputTokens ?? 0);
+}
+
+/**
+ * Active quotas that apply to a user
+ */
+export async function getApplicableQuotas(user: { role: UserRole; department: string | null }) {
+  const quotas = await prisma.usageQuota.findMany({ where: { isActive: true } });
+  const department = user.department?.trim().toLowerCase();
+
+  return quotas.filter(
+    (quota) =>
+      (!quota.role || quota.role === user.role) &&
+      (!quota.department || quota.department.trim().toLowerCase() === department)
+  );
+}
+
+/**
+ * Throw QuotaExceededError if the user, or their department, has used up an
+ * applicable daily or monthly quota
+ */
+export async function enforceUsageQuota(userId: string, now: Date = new Date()): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, role: true, department: true },
+  });
+  if (!user) return;
+
+  const periods = [
+    { limit: 'dailyTokenLimit', since: startOfUtcDay(now), label: 'daily', resets: 'at midnight UTC' },
+    { limit: 'monthlyTokenLimit', since: startOfUtcMonth(now), label: 'monthly', resets: 'on the 1st of next month' },
+  ] as const;
+
+  for (const quota of await getApplicableQuotas(user)) {
+    for (const period of periods) {
+      const limit = quota[period.limit];
+      if (limit === null) continue;
+
+      const used = await tokensUsed(quotaUsageFilter(quota, user), period.since);
+      if (used >= limit) {
+        const who = quota.department ? `The ${quota.department} department has` : 'You have';
+        throw new QuotaExceededError(
+          `${who} used the ${period.label} chatbot allowance of ${limit.toLocaleString('en-US')} tokens. It resets ${period.resets}.`
+        );
+      }
+    }
+  }
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Usage since a date, by day, department, user and purpose
+ */
+export async function getUsageReport(since: Date) {
+  const where = { createdAt: { gte: since } };
+  const sums = { inputTokens: true, outputTokens: true, costUsd: true } as const;
+
+  const [totals, byDay, byDepartment, byUser, byPurpose] = await Promise.all([
+    prisma.chatbotUsage.aggregate({ where, _count: true, _sum: sums }),
+    prisma.$queryRaw<{ day: Date; calls: bigint; inputTokens: bigint; outputTokens: bigint; costUsd: number }[]>`
+      SELECT date_trunc('day', created_at) AS day,
+             COUNT(*) AS calls,
+             SUM(input_tokens) AS "inputTokens",
+             SUM(output_tokens) AS "outputTokens",
+             SUM(cost_usd) AS "costUsd"
+      FROM chatbot_usage
+      WHERE created_at >= ${since}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    prisma.chatbotUsage.groupBy({ by: ['department'], where, _count: true, _sum: sums }),
+    prisma.chatbotUsage.groupBy({
+      by: ['userId'],
+      where,
+      _count: true,
+      _sum: sums,
+      orderBy: { _sum: { costUsd: 'desc' } },
+      take: 20,
+    }),
+    prisma.chatbotUsage.groupBy({ by: ['purpose'], where, _count: true, _sum: sums }),
+  ]);
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: byUser.flatMap((row) => (row.userId ? [row.userId] : [])) } },
+    select: { id: true, fullName: true, department: true, role: true },
+  });
+
+  const toTotals = (row: {
+    _count: number;
+    _sum: { inputTokens: number | null; outputTokens: number | null; costUsd: number | null };
+  }): UsageTotals => ({
+    calls: row._count,
+    inputTokens: row._sum.inputTokens ?? 0,
+    outputTokens: row._sum.outputTokens ?? 0,
+    costUsd: row._sum.costUsd ?? 0,
+  });
+
+  return {
+    totals: toTotals(totals),
+    byDay: byDay.map((row) => ({
+      day: row.day,
+      calls: Number(row.calls),
+      inputTokens: Number(row.inputTokens),
+      outputTokens: Number(row.outputTokens),
+      costUsd: Number(row.costUsd),
+    })),
+    byDepartment: byDepartment
+      .map((row) => ({ department: row.department, ...toTotals(row) }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+    byUser: byUser.map((row) => ({
+      user: users.find((user) => user.id === row.userId) ?? null,
+      ...toTotals(row),
+    })),
+    byPurpose: byPurpose.map((row) => ({ purpose: row.purpose, ...toTotals(row) })),
+  };
+}
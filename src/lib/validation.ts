@@ -154,8 +154,27 @@ export const trainingDocumentCreateSchema = z.object({
     errorMap: () => ({ message: 'Invalid document type' }),
   }),
   sourcePostId: z.string().uuid().optional(),
+  // Empty lists leave the document visible to everyone
+  visibleToRoles: z
+    .array(
+      z.enum(['MEMBER', 'LIAISON', 'LEGAL', 'ADMIN'], {
+        errorMap: () => ({ message: 'Invalid role' }),
+      })
+    )
+    .default([]),
+  visibleToDepartments: z
+    .array(z.string().trim().min(1).max(100, 'Department must be less than 100 characters'))
+    .max(20, 'At most 20 departments')
+    .default([]),
 });
 
+export const trainingDocumentUpdateSchema = trainingDocumentCreateSchema
+  .omit({ sourcePostId: true })
+  .partial()
+  .extend({
+    isActive: z.boolean().optional(),
+  });
+
 // Category validation schemas
 export const categoryCreateSchema = z.object({
   name: z
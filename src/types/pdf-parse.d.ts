@@ -0,0 +1,6 @@
+// The package entry point runs a debug self-test when it has no parent module,
+// so the library file is imported directly
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  import pdfParse from 'pdf-parse';
+  export default pdfParse;
+}